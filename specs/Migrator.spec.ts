@@ -0,0 +1,210 @@
+import { expect } from 'chai'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { Postgres } from '../src/db/postgres'
+import { Migrator } from '../src/migrations'
+import { createFakePool } from './utils'
+
+function writeMigration(directory: string, name: string) {
+  fs.writeFileSync(
+    path.join(directory, `${name}.js`),
+    `exports.up = db => db.query('UP ${name}')
+exports.down = db => db.query('DOWN ${name}')
+`
+  )
+}
+
+describe('Migrator', function() {
+  let directory: string
+  let migrator: Migrator
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'))
+    migrator = new Migrator(new Postgres(), { directory, extension: 'js' })
+  })
+
+  afterEach(() => {
+    for (const fileName of fs.readdirSync(directory)) {
+      fs.unlinkSync(path.join(directory, fileName))
+    }
+    fs.rmdirSync(directory)
+  })
+
+  describe('#create', function() {
+    it('should create a timestamped migration file', function() {
+      const filePath = migrator.create('Add price to Parcels')
+      const migration = require(filePath)
+
+      expect(path.basename(filePath)).to.match(
+        /^\d{14}_add_price_to_parcels\.js$/
+      )
+      expect(migration.up).to.be.a('function')
+      expect(migration.down).to.be.a('function')
+    })
+  })
+
+  describe('#getMigrationNames', function() {
+    it('should return the migration names sorted, ignoring other files', function() {
+      for (const fileName of [
+        '20200102000000_second.js',
+        '20200101000000_first.js',
+        'helpers.js',
+        '20200103000000_third.js.map'
+      ]) {
+        fs.writeFileSync(path.join(directory, fileName), '')
+      }
+
+      expect(migrator.getMigrationNames()).to.deep.equal([
+        '20200101000000_first',
+        '20200102000000_second'
+      ])
+    })
+
+    it('should list the migrations compiled next to their source once', function() {
+      for (const fileName of [
+        '20200101000000_first.ts',
+        '20200101000000_first.js',
+        '20200102000000_second.ts'
+      ]) {
+        fs.writeFileSync(path.join(directory, fileName), '')
+      }
+
+      expect(migrator.getMigrationNames()).to.deep.equal([
+        '20200101000000_first',
+        '20200102000000_second'
+      ])
+    })
+  })
+
+  describe('running migrations', function() {
+    const executedAt = new Date('2020-01-05T00:00:00.000Z')
+    let queries: string[]
+    let executed: string[]
+
+    beforeEach(function() {
+      queries = []
+      executed = ['20200101000000_first']
+      migrator.db.pool = createFakePool(queries, text =>
+        text.startsWith('SELECT name, executed_at')
+          ? executed.map(name => ({ name, executed_at: executedAt }))
+          : []
+      )
+
+      writeMigration(directory, '20200101000000_first')
+      writeMigration(directory, '20200102000000_second')
+      writeMigration(directory, '20200103000000_third')
+    })
+
+    it('should run the pending migrations in order, each in a transaction, holding the lock', async function() {
+      const names = await migrator.up()
+
+      expect(names).to.deep.equal([
+        '20200102000000_second',
+        '20200103000000_third'
+      ])
+      expect(queries[0]).to.equal('SELECT pg_advisory_lock($1)')
+      expect(queries.slice(-2)).to.deep.equal([
+        'SELECT pg_advisory_unlock($1)',
+        'release'
+      ])
+      expect(
+        queries.filter(query => !query.startsWith('pool: ')).slice(1, 6)
+      ).to.deep.equal([
+        'BEGIN',
+        'UP 20200102000000_second',
+        queries.find(query =>
+          query.startsWith('INSERT INTO schema_migrations')
+        ),
+        'COMMIT',
+        'release'
+      ])
+      expect(queries).to.include('UP 20200103000000_third')
+      expect(queries).to.not.include('UP 20200101000000_first')
+    })
+
+    it('should run up to count migrations', async function() {
+      expect(await migrator.up(1)).to.deep.equal(['20200102000000_second'])
+      expect(queries).to.not.include('UP 20200103000000_third')
+    })
+
+    it('should reject a count that is not a positive integer', async function() {
+      for (const count of [NaN, 0, -1, 1.5]) {
+        const errors = await Promise.all([
+          migrator.up(count).catch((error: Error) => error),
+          migrator.down(count).catch((error: Error) => error)
+        ])
+
+        for (const error of errors) {
+          expect(error).to.be.instanceOf(Error)
+          expect((error as Error).message).to.contain('positive integer')
+        }
+      }
+      expect(queries).to.deep.equal([])
+    })
+
+    it('should revert the latest executed migrations', async function() {
+      executed = ['20200101000000_first', '20200102000000_second']
+
+      expect(await migrator.down()).to.deep.equal(['20200102000000_second'])
+      expect(queries).to.include('DOWN 20200102000000_second')
+      expect(queries).to.not.include('DOWN 20200101000000_first')
+      expect(
+        queries.some(query => query.startsWith('DELETE FROM schema_migrations'))
+      ).to.equal(true)
+    })
+
+    it('should list every migration with its execution date', async function() {
+      executed = ['20191231000000_removed', '20200101000000_first']
+
+      expect(await migrator.status()).to.deep.equal([
+        { name: '20191231000000_removed', executedAt },
+        { name: '20200101000000_first', executedAt },
+        { name: '20200102000000_second', executedAt: undefined },
+        { name: '20200103000000_third', executedAt: undefined }
+      ])
+    })
+
+    it('should destroy the client if it could not unlock', async function() {
+      const unlockError = new Error('Connection terminated')
+      const client: any = await migrator.db.pool.connect()
+      const query = client.query
+      let released: Error | undefined
+      let thrown: Error | undefined
+
+      client.query = async (text: string) => {
+        if (text.startsWith('SELECT pg_advisory_unlock')) throw unlockError
+        return query(text)
+      }
+      client.release = (releaseError?: Error) => {
+        released = releaseError
+      }
+
+      try {
+        await migrator.up()
+      } catch (error) {
+        thrown = error
+      }
+
+      expect(thrown).to.equal(unlockError)
+      expect(released).to.equal(unlockError)
+    })
+
+    it('should not unlock if the lock could not be acquired', async function() {
+      const client = await migrator.db.pool.connect()
+      client.query = async () => {
+        throw new Error('Connection terminated')
+      }
+      let thrown: Error | undefined
+
+      try {
+        await migrator.up()
+      } catch (error) {
+        thrown = error
+      }
+
+      expect(thrown!.message).to.equal('Connection terminated')
+      expect(queries).to.deep.equal(['release'])
+    })
+  })
+})
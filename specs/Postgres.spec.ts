@@ -0,0 +1,307 @@
+import { expect } from 'chai'
+import * as pg from 'pg'
+import { Postgres } from '../src/db/postgres'
+import { createFakePool } from './utils'
+
+describe('Postgres', function() {
+  let db: Postgres
+  let queries: string[]
+
+  beforeEach(() => {
+    queries = []
+    db = new Postgres()
+    db.pool = createFakePool(queries)
+  })
+
+  describe('#connect', function() {
+    const connect = pg.Pool.prototype.connect
+    let connections: number
+
+    beforeEach(function() {
+      connections = 0
+      pg.Pool.prototype.connect = async function() {
+        connections++
+        return { release: () => undefined }
+      } as any
+    })
+
+    afterEach(function() {
+      pg.Pool.prototype.connect = connect
+    })
+
+    it('should create the pool with the size and timeouts', async function() {
+      const pool: any = await db.connect('postgres://localhost/test', {
+        max: 5,
+        idleTimeoutMillis: 1000,
+        acquireTimeoutMillis: 2000
+      })
+
+      expect(pool.options).to.include({
+        max: 5,
+        idleTimeoutMillis: 1000,
+        connectionTimeoutMillis: 2000
+      })
+      expect(connections).to.equal(1)
+    })
+
+    it('should open min clients and replace the ones closed for being idle', async function() {
+      const pool: any = await db.connect('postgres://localhost/test', {
+        min: 2,
+        max: 5
+      })
+      expect(connections).to.equal(2)
+
+      pool.emit('remove')
+      expect(connections).to.equal(4)
+
+      pool.ending = true
+      pool.emit('remove')
+      expect(connections).to.equal(4)
+    })
+
+    it('should reject a min bigger than max', async function() {
+      let thrown: Error | undefined
+
+      try {
+        await db.connect('postgres://localhost/test', { min: 11 })
+      } catch (error) {
+        thrown = error
+      }
+
+      expect(thrown!.message).to.equal(
+        'min should be an integer from 0 to max (10), got 11'
+      )
+      expect(connections).to.equal(0)
+    })
+  })
+
+  describe('#transaction', function() {
+    it('should commit and release the client if the callback resolves', async function() {
+      const result = await db.transaction(async tx => {
+        await tx.query('SELECT 1')
+        return 'result'
+      })
+
+      expect(result).to.equal('result')
+      expect(queries).to.deep.equal(['BEGIN', 'SELECT 1', 'COMMIT', 'release'])
+    })
+
+    it('should rollback and rethrow if the callback throws', async function() {
+      const error = new Error('Failed')
+      let thrown: Error | undefined
+
+      try {
+        await db.transaction(async () => {
+          throw error
+        })
+      } catch (e) {
+        thrown = e
+      }
+
+      expect(thrown).to.equal(error)
+      expect(queries).to.deep.equal(['BEGIN', 'ROLLBACK', 'release'])
+    })
+
+    it('should rethrow the original error and destroy the client if the rollback fails', async function() {
+      const error = new Error('Failed')
+      const rollbackError = new Error('Connection terminated')
+      const client: any = await db.pool.connect()
+      const query = client.query
+      let released: Error | undefined
+      let thrown: Error | undefined
+
+      client.query = async (text: string) => {
+        if (text === 'ROLLBACK') throw rollbackError
+        return query(text)
+      }
+      client.release = (releaseError?: Error) => {
+        released = releaseError
+      }
+
+      try {
+        await db.transaction(async () => {
+          throw error
+        })
+      } catch (e) {
+        thrown = e
+      }
+
+      expect(thrown).to.equal(error)
+      expect(released).to.equal(rollbackError)
+    })
+
+    it('should route the queries made on the client inside the callback to the transaction', async function() {
+      await db.query('SELECT 1')
+      await db.transaction(() => db.query('SELECT 2'))
+
+      expect(queries).to.deep.equal([
+        'pool: SELECT 1',
+        'BEGIN',
+        'SELECT 2',
+        'COMMIT',
+        'release'
+      ])
+    })
+
+    it('should use savepoints for nested calls', async function() {
+      await db.transaction(async () => {
+        await db.transaction(() => db.query('SELECT 1'))
+        await db
+          .transaction(async () => {
+            throw new Error('Failed')
+          })
+          .catch(() => undefined)
+      })
+
+      expect(queries).to.deep.equal([
+        'BEGIN',
+        'SAVEPOINT savepoint_1',
+        'SELECT 1',
+        'RELEASE SAVEPOINT savepoint_1',
+        'SAVEPOINT savepoint_2',
+        'ROLLBACK TO SAVEPOINT savepoint_2',
+        'COMMIT',
+        'release'
+      ])
+    })
+
+    it('should rethrow the original error if rolling back to the savepoint fails', async function() {
+      const error = new Error('Failed')
+      const client: any = await db.pool.connect()
+      const query = client.query
+      let thrown: Error | undefined
+
+      client.query = async (text: string) => {
+        if (text.startsWith('ROLLBACK TO')) {
+          throw new Error('Connection terminated')
+        }
+        return query(text)
+      }
+
+      await db
+        .transaction(() =>
+          db.transaction(async () => {
+            throw error
+          })
+        )
+        .catch(e => {
+          thrown = e
+        })
+
+      expect(thrown).to.equal(error)
+    })
+
+    it('should run every after commit callback and report their errors without rejecting', async function() {
+      const error = new Error('Failed')
+      const reported: Error[] = []
+      const calls: number[] = []
+      db.onCommitCallbackError(callbackError => reported.push(callbackError))
+
+      const result = await db.transaction(async () => {
+        await db.afterCommit(() => {
+          throw error
+        })
+        await db.afterCommit(() => calls.push(2))
+        return 'result'
+      })
+
+      expect(result).to.equal('result')
+      expect(calls).to.deep.equal([2])
+      expect(reported).to.deep.equal([error])
+    })
+  })
+
+  describe('#toWhereStatement', function() {
+    it('should compare plain values for equality', function() {
+      const statement = db.toWhereStatement({ x: 1, owner: '0x1' })
+
+      expect(statement.text).to.equal('"x" = $1 AND "owner" = $2')
+      expect(statement.values).to.deep.equal([1, '0x1'])
+    })
+
+    it('should use IS NULL for null values', function() {
+      const statement = db.toWhereStatement({
+        estate_id: null,
+        owner: { $ne: null }
+      })
+
+      expect(statement.text).to.equal(
+        '"estate_id" IS NULL AND "owner" IS NOT NULL'
+      )
+      expect(statement.values).to.deep.equal([])
+    })
+
+    it('should support comparison operators', function() {
+      const statement = db.toWhereStatement({
+        price: { $gte: 10, $lt: 20 },
+        name: { $ilike: '%genesis%' }
+      })
+
+      expect(statement.text).to.equal(
+        '"price" >= $1 AND "price" < $2 AND "name" ILIKE $3'
+      )
+      expect(statement.values).to.deep.equal([10, 20, '%genesis%'])
+    })
+
+    it('should expand IN lists and short circuit empty ones', function() {
+      const statement = db.toWhereStatement({
+        owner: { $in: ['0x1', '0x2'] },
+        x: { $in: [] },
+        y: { $nin: [3] }
+      })
+
+      expect(statement.text).to.equal(
+        '"owner" IN ($1, $2) AND FALSE AND "y" NOT IN ($3)'
+      )
+      expect(statement.values).to.deep.equal(['0x1', '0x2', 3])
+    })
+
+    it('should support $or, $and and $not groups', function() {
+      const statement = db.toWhereStatement({
+        x: 1,
+        $or: [{ y: 2 }, { y: { $not: { $in: [3, 4] } } }],
+        $not: { owner: null }
+      })
+
+      expect(statement.text).to.equal(
+        '"x" = $1 AND (("y" = $2) OR (NOT ("y" IN ($3, $4)))) AND NOT ("owner" IS NULL)'
+      )
+      expect(statement.values).to.deep.equal([1, 2, 3, 4])
+    })
+
+    it('should compare Dates and arrays for equality', function() {
+      const date = new Date()
+      const statement = db.toWhereStatement({ created_at: date, tags: ['a'] })
+
+      expect(statement.text).to.equal('"created_at" = $1 AND "tags" = $2')
+      expect(statement.values).to.deep.equal([date, ['a']])
+    })
+
+    it('should return TRUE for empty conditions', function() {
+      expect(db.toWhereStatement({}).text).to.equal('TRUE')
+    })
+  })
+
+  describe('#update', function() {
+    it('should number the WHERE placeholders after the changes', async function() {
+      await db.update('parcels', { owner: '0x1' }, { x: { $gt: 1 }, y: 2 })
+
+      expect(queries).to.deep.equal([
+        'pool: UPDATE parcels SET "owner" = $1 WHERE "x" > $2 AND "y" = $3 ["0x1",1,2]'
+      ])
+    })
+
+    it('should reject if the conditions are empty', async function() {
+      let thrown: Error | undefined
+
+      try {
+        await db.update('parcels', { owner: '0x1' }, {})
+      } catch (e) {
+        thrown = e
+      }
+
+      expect(thrown).to.be.an('error')
+      expect(queries).to.deep.equal([])
+    })
+  })
+})
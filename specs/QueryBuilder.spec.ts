@@ -0,0 +1,66 @@
+import { expect } from 'chai'
+import { Postgres } from '../src/db/postgres'
+import { QueryBuilder } from '../src/db/queryBuilder'
+import { SQL } from '../src/sql'
+
+describe('QueryBuilder', function() {
+  let query: QueryBuilder
+
+  beforeEach(() => {
+    query = new QueryBuilder(new Postgres(), 'parcels')
+  })
+
+  it('should select everything by default', function() {
+    expect(query.toStatement().text).to.equal('SELECT * FROM parcels')
+  })
+
+  it('should build every clause numbering the placeholders in order', function() {
+    const statement = query
+      .select('parcels.*', 'COUNT(estates.id) AS estates')
+      .leftJoin('estates', SQL`estates.id = parcels.estate_id`)
+      .where({ 'parcels.owner': '0x1' })
+      .where(SQL`parcels.x > ${10}`)
+      .groupBy('parcels.id')
+      .having(SQL`COUNT(estates.id) > ${1}`)
+      .orderBy('parcels.x', 'DESC')
+      .orderBy({ y: 'ASC' })
+      .limit(20)
+      .offset(40)
+      .toStatement()
+
+    expect(statement.text).to.equal(
+      'SELECT parcels.*, COUNT(estates.id) AS estates FROM parcels' +
+        ' LEFT JOIN estates ON estates.id = parcels.estate_id' +
+        ' WHERE ("parcels"."owner" = $1) AND (parcels.x > $2)' +
+        ' GROUP BY parcels.id HAVING COUNT(estates.id) > $3' +
+        ' ORDER BY parcels.x DESC, "y" ASC LIMIT $4 OFFSET $5'
+    )
+    expect(statement.values).to.deep.equal(['0x1', 10, 1, 20, 40])
+  })
+
+  it('should apply scopes', function() {
+    const owned = (owner: string) => (builder: QueryBuilder) =>
+      builder.where({ owner })
+    const recent = (builder: QueryBuilder) =>
+      builder.orderBy('created_at', 'DESC')
+
+    const statement = query.scope(owned('0x1'), recent).toStatement()
+
+    expect(statement.text).to.equal(
+      'SELECT * FROM parcels WHERE "owner" = $1 ORDER BY created_at DESC'
+    )
+    expect(statement.values).to.deep.equal(['0x1'])
+  })
+
+  it('should not modify the original builder when cloned', function() {
+    query.where({ x: 1 })
+    const cloned = query.clone().where({ y: 2 })
+
+    expect(query.toStatement().text).to.equal(
+      'SELECT * FROM parcels WHERE "x" = $1'
+    )
+    expect(cloned.toStatement().text).to.equal(
+      'SELECT * FROM parcels WHERE ("x" = $1) AND ("y" = $2)'
+    )
+  })
+})
@@ -1,5 +1,5 @@
 import { expect } from 'chai'
-import { SQL } from '../src/sql'
+import { SQL, join } from '../src/sql'
 
 describe('SQL', () => {
   it('should work with a simple query', () => {
@@ -80,6 +80,18 @@ describe('SQL', () => {
     })
   })
 
+  describe('join()', () => {
+    it('should join the statements keeping the placeholders in order', () => {
+      const query = join([SQL`a = ${1}`, SQL`b`, SQL`c = ${3}`], ' AND ')
+      expect(query.text).to.equal('a = $1 AND b AND c = $2')
+      expect(query.values).to.deep.equal([1, 3])
+    })
+
+    it('should return an empty statement for an empty list', () => {
+      expect(join([]).text).to.equal('')
+    })
+  })
+
   describe('setName()', () => {
     it('should set the name and return this', () => {
       expect(SQL`SELECT * FROM table`.setName('my_query').name).to.equal(
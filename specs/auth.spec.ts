@@ -0,0 +1,258 @@
+import { CURVE, getPublicKey, Signature, sign, utils } from '@noble/secp256k1'
+import { expect } from 'chai'
+import { keccak256 } from 'js-sha3'
+import * as jwt from 'jsonwebtoken'
+import { ForbiddenError, UnauthorizedError } from '../src/errors'
+import {
+  AuthenticatedRequest,
+  AuthOptions,
+  getAuthMessage,
+  handleRequest,
+  recoverAddress,
+  requireAuth
+} from '../src/server'
+import { createFakeResponse } from './utils'
+
+const SECRET = 'secret'
+const privateKey = utils.randomPrivateKey()
+const address =
+  '0x' + keccak256(getPublicKey(privateKey).subarray(1)).slice(-40)
+
+async function personalSign(message: string): Promise<string> {
+  const bytes = Buffer.from(message)
+  const hash = keccak256.arrayBuffer(
+    Buffer.concat([
+      Buffer.from(`\x19Ethereum Signed Message:\n${bytes.length}`),
+      bytes
+    ])
+  )
+  const [signature, recovery] = await sign(new Uint8Array(hash), privateKey, {
+    recovered: true,
+    der: false
+  })
+  return '0x' + Buffer.from([...signature, recovery + 27]).toString('hex')
+}
+
+async function createSignedRequest(timestamp = Date.now()): Promise<any> {
+  const path = '/api/me?include=parcels'
+  return {
+    method: 'GET',
+    originalUrl: path,
+    headers: {
+      'x-auth-address': address.toUpperCase().replace('0X', '0x'),
+      'x-auth-timestamp': String(timestamp),
+      'x-auth-signature': await personalSign(
+        getAuthMessage('GET', path, timestamp)
+      )
+    }
+  }
+}
+
+/**
+ * The same signature with v as 0/1 instead of 27/28
+ */
+function withRecoveryV(signature: string): string {
+  const v = parseInt(signature.slice(-2), 16)
+  return signature.slice(0, -2) + (v - 27).toString(16).padStart(2, '0')
+}
+
+/**
+ * The (r, n - s) twin of the signature, which recovers the same address with the other v
+ */
+function toHighS(signature: string): string {
+  const { r, s } = Signature.fromCompact(signature.slice(2, 130))
+  const v = parseInt(signature.slice(-2), 16) === 27 ? '1c' : '1b'
+  return '0x' + new Signature(r, CURVE.n - s).toCompactHex() + v
+}
+
+function createBearerRequest(token: string): any {
+  return { headers: { authorization: `Bearer ${token}` } }
+}
+
+async function getError(promise: Promise<any>): Promise<any> {
+  try {
+    await promise
+  } catch (error) {
+    return error
+  }
+  throw new Error('Expected the promise to be rejected')
+}
+
+describe('Auth', function() {
+  const handler = (req: AuthenticatedRequest) => req.auth
+  let options: AuthOptions
+
+  beforeEach(function() {
+    options = { jwt: { secret: SECRET }, signature: true }
+  })
+
+  describe('#recoverAddress', function() {
+    it('should recover the address that personal_signed the message', async function() {
+      const signature = await personalSign('Hello')
+
+      expect(recoverAddress('Hello', signature)).to.equal(address)
+      expect(recoverAddress('Bye', signature)).to.not.equal(address)
+    })
+
+    it('should accept v as 0/1 and reject other values', async function() {
+      const signature = await personalSign('Hello')
+
+      expect(recoverAddress('Hello', withRecoveryV(signature))).to.equal(
+        address
+      )
+      expect(() =>
+        recoverAddress('Hello', signature.slice(0, -2) + '1d')
+      ).to.throw('Malformed signature')
+    })
+
+    it('should reject signatures with a high s value', async function() {
+      const signature = await personalSign('Hello')
+
+      expect(() => recoverAddress('Hello', toHighS(signature))).to.throw(
+        'Malleable signature'
+      )
+    })
+  })
+
+  describe('#requireAuth', function() {
+    it('should attach the identity of a valid bearer token', async function() {
+      const token = jwt.sign({ sub: address }, SECRET)
+      const auth = await requireAuth(handler, options)(
+        createBearerRequest(token),
+        {}
+      )
+
+      expect(auth.type).to.equal('jwt')
+      expect(auth.address).to.equal(address)
+      expect(auth.claims.sub).to.equal(address)
+    })
+
+    it('should reject invalid and expired tokens', async function() {
+      const wrongSecret = jwt.sign({ sub: address }, 'other')
+      const expired = jwt.sign(
+        { sub: address, exp: Math.floor(Date.now() / 1000) - 10 },
+        SECRET
+      )
+      const auth = requireAuth(handler, options)
+
+      const invalidError = await getError(
+        auth(createBearerRequest(wrongSecret), {})
+      )
+      const expiredError = await getError(
+        auth(createBearerRequest(expired), {})
+      )
+
+      expect(invalidError).to.be.instanceOf(UnauthorizedError)
+      expect(invalidError.message).to.equal('Invalid token')
+      expect(expiredError.message).to.equal('Token expired')
+    })
+
+    it('should attach the recovered address of a signed request', async function() {
+      const auth = await requireAuth(handler, options)(
+        await createSignedRequest(),
+        {}
+      )
+
+      expect(auth).to.deep.equal({ type: 'signature', address })
+    })
+
+    it('should reject expired signatures', async function() {
+      const req = await createSignedRequest(Date.now() - 2 * 60 * 1000)
+      const error = await getError(requireAuth(handler, options)(req, {}))
+
+      expect(error.statusCode).to.equal(401)
+      expect(error.message).to.equal('Signature expired')
+    })
+
+    it('should reject signatures for another request', async function() {
+      const req = await createSignedRequest()
+      req.originalUrl = '/api/me?include=everything'
+
+      const error = await getError(requireAuth(handler, options)(req, {}))
+
+      expect(error.message).to.equal('Invalid signature')
+    })
+
+    it('should reject signatures that were already used', async function() {
+      const req = await createSignedRequest()
+      const auth = requireAuth(handler, options)
+
+      await auth(req, {})
+      const error = await getError(auth(req, {}))
+
+      expect(error.message).to.equal('Signature already used')
+    })
+
+    it('should reject replays with another encoding of the signature', async function() {
+      const req = await createSignedRequest()
+      const signature = req.headers['x-auth-signature']
+      const auth = requireAuth(handler, options)
+
+      await auth(req, {})
+      const rewritten = await getError(
+        auth(
+          {
+            ...req,
+            headers: {
+              ...req.headers,
+              'x-auth-signature': withRecoveryV(signature)
+            }
+          },
+          {}
+        )
+      )
+      const malleated = await getError(
+        auth(
+          {
+            ...req,
+            headers: { ...req.headers, 'x-auth-signature': toHighS(signature) }
+          },
+          {}
+        )
+      )
+
+      expect(rewritten.message).to.equal('Signature already used')
+      expect(malleated.message).to.equal('Invalid signature')
+    })
+
+    it('should reject requests without credentials or with a disabled method', async function() {
+      const token = jwt.sign({ sub: address }, SECRET)
+      const signatureOnly = requireAuth(handler, { signature: true })
+
+      const missing = await getError(
+        requireAuth(handler, options)({ headers: {} } as any, {})
+      )
+      const disabled = await getError(
+        signatureOnly(createBearerRequest(token), {})
+      )
+
+      expect(missing.message).to.equal('Authentication required')
+      expect(disabled.message).to.equal('Authentication required')
+    })
+
+    it('should forbid identities rejected by authorize', async function() {
+      const token = jwt.sign({ sub: address }, SECRET)
+      const auth = requireAuth(handler, {
+        ...options,
+        authorize: ({ address }) => address === '0x0'
+      })
+
+      const error = await getError(auth(createBearerRequest(token), {}))
+
+      expect(error).to.be.instanceOf(ForbiddenError)
+    })
+
+    it('should send failures through handleRequest as a 401', async function() {
+      const res = createFakeResponse()
+
+      await handleRequest(requireAuth(handler, options))(
+        { headers: {} } as any,
+        res,
+        () => undefined
+      )
+
+      expect(res.statusCode).to.equal(401)
+      expect(res.body.error).to.equal('Authentication required')
+    })
+  })
+})
@@ -0,0 +1,189 @@
+import { expect } from 'chai'
+import { Postgres } from '../src/db/postgres'
+import { Model } from '../src/Model'
+import { ValidationError } from '../src/validation'
+import { createFakePool } from './utils'
+
+describe('Bulk writes', function() {
+  let queries: string[]
+  let db: Postgres
+
+  class Parcel extends Model<any> {
+    static tableName = 'parcels'
+    static withTimestamps = false
+    static validations = { x: { type: 'integer' as 'integer' } }
+  }
+
+  beforeEach(() => {
+    queries = []
+    db = new Postgres()
+    db.pool = createFakePool(queries, text => {
+      if (text.includes('information_schema')) {
+        return [
+          { column_name: 'id', udt_name: 'int4' },
+          { column_name: 'x', udt_name: 'int4' }
+        ]
+      }
+      return [{ id: 1 }, { id: 2 }]
+    })
+    Parcel.db = db
+  })
+
+  describe('#insertMany', function() {
+    it('should insert every row in a single statement, using DEFAULT for missing columns', async function() {
+      await db.insertMany('parcels', [{ x: 1, y: 2 }, { x: 3 }], 'id')
+
+      expect(queries).to.deep.equal([
+        'pool: INSERT INTO parcels ("x","y") VALUES ($1, $2), ($3, DEFAULT) RETURNING id [1,2,3]'
+      ])
+    })
+
+    it('should update the conflicting rows with their new values if there are no changes', async function() {
+      await db.insertMany('parcels', [{ x: 1, y: 2, owner: 'a' }], '', {
+        target: ['x', 'y']
+      })
+
+      expect(queries[0]).to.contain(
+        'ON CONFLICT (x,y) DO UPDATE SET "owner" = EXCLUDED."owner"'
+      )
+    })
+  })
+
+  describe('#updateMany', function() {
+    it('should cast the values to the type of each column', async function() {
+      await db.updateMany('parcels', [
+        { id: 1, x: 10 },
+        { id: 2, x: 20 }
+      ])
+
+      expect(queries[1]).to.equal(
+        'pool: UPDATE parcels SET "x" = v."x" FROM (VALUES ($1::"int4", $2::"int4"), ($3::"int4", $4::"int4")) AS v("id","x") WHERE parcels."id" = v."id" [1,10,2,20]'
+      )
+    })
+
+    it('should reject rows with different columns', async function() {
+      let thrown: Error | undefined
+
+      try {
+        await db.updateMany('parcels', [{ id: 1, x: 10 }, { id: 2 }])
+      } catch (error) {
+        thrown = error
+      }
+
+      expect(thrown).to.be.instanceOf(Error)
+      expect(queries).to.deep.equal([])
+    })
+  })
+
+  describe('Model.createMany', function() {
+    it('should insert the rows in chunks inside a transaction and return their keys', async function() {
+      const keys = await Parcel.createMany([{ x: 1 }, { x: 2 }, { x: 3 }], {
+        chunkSize: 2
+      })
+
+      expect(
+        queries.filter(query => query.startsWith('INSERT'))
+      ).to.have.length(2)
+      expect(queries[0]).to.equal('BEGIN')
+      expect(queries.slice(-2)).to.deep.equal(['COMMIT', 'release'])
+      expect(keys).to.deep.equal([1, 2, 1, 2])
+    })
+
+    it('should size the chunks by every column found on the rows', async function() {
+      const wide: any = { x: 2 }
+      for (let i = 0; i < 40000; i++) {
+        wide[`column_${i}`] = i
+      }
+
+      await Parcel.createMany([{ x: 1 }, wide])
+
+      expect(
+        queries.filter(query => query.startsWith('INSERT'))
+      ).to.have.length(2)
+    })
+
+    it('should run the afterCreate hooks with the key of each row', async function() {
+      const results: any[] = []
+      const removeHook = Parcel.addHook('afterCreate', ({ result }) => {
+        results.push(result)
+      })
+
+      await Parcel.createMany([{ x: 1 }, { x: 2 }])
+      removeHook()
+
+      expect(results).to.deep.equal([1, 2])
+    })
+
+    it('should collect the validation errors of every row before writing', async function() {
+      let thrown: ValidationError | undefined
+
+      try {
+        await Parcel.createMany([{ x: 1 }, { x: 'a' }, { x: 1.5 }])
+      } catch (error) {
+        thrown = error
+      }
+
+      expect(thrown).to.be.instanceOf(ValidationError)
+      expect(thrown!.data.errors.map(error => error.field)).to.deep.equal([
+        '1.x',
+        '2.x'
+      ])
+      expect(queries).to.deep.equal(['BEGIN', 'ROLLBACK', 'release'])
+    })
+  })
+
+  describe('Model.updateMany', function() {
+    it('should return the amount of updated rows', async function() {
+      db.pool = createFakePool(queries, [])
+      const original = db.pool.connect
+      db.pool.connect = async () => {
+        const client = await original()
+        const query = client.query
+        client.query = async (text: any) => ({
+          ...(await query(text)),
+          rowCount: 2
+        })
+        return client
+      }
+
+      const count = await Parcel.updateMany([
+        { id: 1, x: 10 },
+        { id: 2, x: 20 }
+      ])
+
+      expect(count).to.equal(2)
+    })
+
+    it('should match each row by the key on the conditions of the hooks', async function() {
+      const removeHook = Parcel.addHook('beforeUpdate', ({ conditions }) => {
+        conditions.id = conditions.id + 10
+      })
+
+      try {
+        await Parcel.updateMany([{ id: 1, x: 10 }])
+      } finally {
+        removeHook()
+      }
+
+      expect(queries[2]).to.match(/\[11,10\]$/)
+    })
+
+    it('should reject conditions other than the key', async function() {
+      const removeHook = Parcel.addHook('beforeUpdate', ({ conditions }) => {
+        conditions.owner = '0x'
+      })
+      let thrown: Error | undefined
+
+      try {
+        await Parcel.updateMany([{ id: 1, x: 10 }])
+      } catch (error) {
+        thrown = error
+      } finally {
+        removeHook()
+      }
+
+      expect(thrown!.message).to.contain('conditions other than "id"')
+      expect(queries).to.deep.equal(['BEGIN', 'ROLLBACK', 'release'])
+    })
+  })
+})
@@ -0,0 +1,262 @@
+import { expect } from 'chai'
+import * as jwt from 'jsonwebtoken'
+import { LRUCacheStore } from '../src/cache'
+import { Postgres } from '../src/db/postgres'
+import { Model } from '../src/Model'
+import { cacheResponse, handleRequest, requireAuth } from '../src/server'
+import { createFakePool, createFakeRequest, createFakeResponse } from './utils'
+
+describe('Cache', function() {
+  describe('LRUCacheStore', function() {
+    it('should drop the least recently used entry once full', function() {
+      const store = new LRUCacheStore(2)
+
+      store.set('a', 1, 1000)
+      store.set('b', 2, 1000)
+      store.get('a')
+      store.set('c', 3, 1000)
+
+      expect(store.get('a')).to.equal(1)
+      expect(store.get('b')).to.equal(undefined)
+      expect(store.get('c')).to.equal(3)
+    })
+
+    it('should not return expired entries', function() {
+      const store = new LRUCacheStore()
+
+      store.set('a', 1, 0)
+
+      expect(store.get('a')).to.equal(undefined)
+    })
+
+    it('should delete the keys starting with a prefix', function() {
+      const store = new LRUCacheStore()
+
+      store.set('model:users:1', 1, 1000)
+      store.set('model:parcels:1', 2, 1000)
+      store.deleteByPrefix('model:users:')
+
+      expect([...store.entries.keys()]).to.deep.equal(['model:parcels:1'])
+    })
+  })
+
+  describe('Model', function() {
+    let queries: string[]
+
+    class Parcel extends Model<any> {
+      static tableName = 'parcels'
+      static withTimestamps = false
+      static cache = { ttlMillis: 60000, store: new LRUCacheStore() }
+    }
+
+    beforeEach(function() {
+      queries = []
+      const db = new Postgres()
+      db.pool = createFakePool(queries, () => [{ id: 1, x: 0 }])
+      Parcel.db = db
+      Parcel.cache.store.clear()
+    })
+
+    it('should cache the results of find and findOne', async function() {
+      const rows = await Parcel.find({ x: 0 })
+      rows[0].x = 10
+
+      expect(await Parcel.find({ x: 0 })).to.deep.equal([{ id: 1, x: 0 }])
+      expect(await Parcel.findOne(1)).to.deep.equal({ id: 1, x: 0 })
+      await Parcel.findOne(1)
+      await Parcel.find({ x: 1 })
+
+      expect(queries).to.deep.equal([
+        'pool: SELECT * FROM parcels WHERE "x" = $1  [0]',
+        'pool: SELECT * FROM parcels WHERE "id" = $1 LIMIT 1 [1]',
+        'pool: SELECT * FROM parcels WHERE "x" = $1  [1]'
+      ])
+    })
+
+    it('should invalidate the cached reads on every write', async function() {
+      await Parcel.find({ x: 0 })
+      await Parcel.update({ x: 1 }, { id: 1 })
+      await Parcel.find({ x: 0 })
+      await Parcel.create({ id: 2, x: 0 })
+      await Parcel.find({ x: 0 })
+      await Parcel.delete({ id: 2 })
+      await Parcel.find({ x: 0 })
+
+      expect(queries.filter(query => query.includes('SELECT'))).to.have.length(
+        4
+      )
+    })
+
+    it('should invalidate the cached reads once the outermost transaction commits', async function() {
+      await Parcel.find({ x: 0 })
+
+      await Parcel.db.transaction(async () => {
+        await Parcel.transaction(() => Parcel.update({ x: 1 }, { id: 1 }))
+        expect(Parcel.cache.store.entries.size).to.equal(1)
+      })
+
+      expect(Parcel.cache.store.entries.size).to.equal(0)
+    })
+
+    it('should keep the cached reads if the transaction rolls back', async function() {
+      await Parcel.find({ x: 0 })
+
+      await Parcel.db
+        .transaction(async () => {
+          await Parcel.update({ x: 1 }, { id: 1 })
+          throw new Error('Rollback')
+        })
+        .catch(() => undefined)
+
+      expect(Parcel.cache.store.entries.size).to.equal(1)
+    })
+
+    it('should skip the cache inside transactions', async function() {
+      await Parcel.find({ x: 0 })
+      await Parcel.transaction(() => Parcel.find({ x: 0 }))
+
+      expect(queries.filter(query => query.includes('SELECT'))).to.have.length(
+        2
+      )
+    })
+  })
+
+  describe('#cacheResponse', function() {
+    let calls: number
+    let options: any
+
+    beforeEach(function() {
+      calls = 0
+      options = { ttlMillis: 30000, store: new LRUCacheStore() }
+    })
+
+    const route = () =>
+      handleRequest(
+        cacheResponse(() => {
+          calls++
+          return { id: 1 }
+        }, options)
+      )
+
+    it('should cache the response by route, params and query', async function() {
+      const first = createFakeResponse()
+      const second = createFakeResponse()
+      const other = createFakeResponse()
+
+      await route()(
+        createFakeRequest({ query: { a: '1', b: '2' } }),
+        first,
+        () => undefined
+      )
+      await route()(
+        createFakeRequest({ query: { b: '2', a: '1' } }),
+        second,
+        () => undefined
+      )
+      await route()(
+        createFakeRequest({ query: { a: '2' } }),
+        other,
+        () => undefined
+      )
+
+      expect(calls).to.equal(2)
+      expect(second.body).to.deep.equal({ ok: true, data: { id: 1 } })
+      expect(second.headers['ETag']).to.equal(first.headers['ETag'])
+      expect(second.headers['Cache-Control']).to.equal('private, max-age=30')
+    })
+
+    it('should answer 304 if the ETag matches If-None-Match', async function() {
+      const first = createFakeResponse()
+      await route()(createFakeRequest(), first, () => undefined)
+
+      const res = createFakeResponse()
+      await route()(
+        createFakeRequest({
+          headers: { 'if-none-match': `W/"other", ${first.headers['ETag']}` }
+        }),
+        res,
+        () => undefined
+      )
+
+      expect(res.statusCode).to.equal(304)
+      expect(res.ended).to.equal(true)
+      expect(res.body).to.equal(undefined)
+    })
+
+    it('should not cache errors or other methods', async function() {
+      const failing = handleRequest(
+        cacheResponse(() => {
+          calls++
+          throw new Error('Connection lost')
+        }, options)
+      )
+
+      await failing(createFakeRequest(), createFakeResponse(), () => undefined)
+      await failing(createFakeRequest(), createFakeResponse(), () => undefined)
+      await route()(
+        { ...createFakeRequest(), method: 'POST' },
+        createFakeResponse(),
+        () => undefined
+      )
+      await route()(
+        { ...createFakeRequest(), method: 'POST' },
+        createFakeResponse(),
+        () => undefined
+      )
+
+      expect(calls).to.equal(4)
+    })
+
+    it('should authenticate every request and cache the responses per user', async function() {
+      const secret = 'secret'
+      const authenticated = handleRequest(
+        requireAuth(
+          cacheResponse(req => {
+            calls++
+            return { owner: req.auth.address }
+          }, options),
+          { jwt: { secret } }
+        )
+      )
+      const withToken = (sub: string) =>
+        createFakeRequest({
+          headers: { authorization: `Bearer ${jwt.sign({ sub }, secret)}` }
+        })
+
+      const first = createFakeResponse()
+      const anonymous = createFakeResponse()
+      const other = createFakeResponse()
+      const cached = createFakeResponse()
+
+      await authenticated(withToken('0xa'), first, () => undefined)
+      await authenticated(createFakeRequest(), anonymous, () => undefined)
+      await authenticated(withToken('0xb'), other, () => undefined)
+      await authenticated(withToken('0xa'), cached, () => undefined)
+
+      expect(calls).to.equal(2)
+      expect(anonymous.statusCode).to.equal(401)
+      expect(anonymous.body).to.deep.equal({
+        ok: false,
+        data: {},
+        error: 'Authentication required'
+      })
+      expect(other.body.data).to.deep.equal({ owner: '0xb' })
+      expect(cached.body.data).to.deep.equal({ owner: '0xa' })
+      expect(cached.headers['Cache-Control']).to.equal('private, max-age=30')
+    })
+
+    it('should skip the cache for credentials no outer requireAuth verified', async function() {
+      const res = createFakeResponse()
+
+      await route()(createFakeRequest(), createFakeResponse(), () => undefined)
+      await route()(
+        createFakeRequest({ headers: { authorization: 'Bearer token' } }),
+        res,
+        () => undefined
+      )
+
+      expect(calls).to.equal(2)
+      expect(res.headers['ETag']).to.equal(undefined)
+    })
+  })
+})
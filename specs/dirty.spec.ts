@@ -0,0 +1,111 @@
+import { expect } from 'chai'
+import { Postgres } from '../src/db/postgres'
+import { Model } from '../src/Model'
+import { createFakePool } from './utils'
+
+describe('Dirty tracking', function() {
+  let queries: string[]
+
+  class Parcel extends Model<any> {
+    static tableName = 'parcels'
+    static withTimestamps = false
+  }
+
+  beforeEach(() => {
+    queries = []
+
+    const db = new Postgres()
+    db.pool = createFakePool(queries, text =>
+      text.startsWith('SELECT')
+        ? [{ id: 1, owner: '0x', data: { tags: ['a'] } }]
+        : [{ id: 1 }]
+    )
+    Parcel.db = db
+  })
+
+  it('should treat every attribute of a new instance as changed', function() {
+    const parcel = new Parcel({ owner: '0x' })
+
+    expect(parcel.isDirty()).to.equal(true)
+    expect(parcel.changed()).to.deep.equal({ owner: '0x' })
+    expect(parcel.previous('owner')).to.equal(undefined)
+  })
+
+  it('should track the changes made after retreiving the row, including nested ones', async function() {
+    const parcel = new Parcel({ id: 1 })
+    await parcel.retreive()
+
+    expect(parcel.isDirty()).to.equal(false)
+
+    parcel.set('owner', '0x1')
+    parcel.setIn(['data', 'tags'], ['a', 'b'])
+
+    expect(parcel.isDirty('owner')).to.equal(true)
+    expect(parcel.isDirty('id')).to.equal(false)
+    expect(parcel.changed()).to.deep.equal({
+      owner: '0x1',
+      data: { tags: ['a', 'b'] }
+    })
+    expect(parcel.previous('owner')).to.equal('0x')
+    expect(parcel.previous('data')).to.deep.equal({ tags: ['a'] })
+  })
+
+  it('should track the removed attributes', async function() {
+    const parcel = new Parcel({ id: 1 })
+    await parcel.retreive()
+
+    delete parcel.attributes.owner
+
+    expect(parcel.isDirty('owner')).to.equal(true)
+    expect(parcel.changed()).to.deep.equal({ owner: undefined })
+  })
+
+  it('should record the timestamps written on create and update', async function() {
+    class Estate extends Model<any> {
+      static tableName = 'estates'
+    }
+    Estate.db = Parcel.db
+
+    const estate = new Estate({ owner: '0x' })
+    await estate.create()
+
+    expect(estate.get('created_at')).to.be.instanceOf(Date)
+    expect(estate.isDirty()).to.equal(false)
+
+    estate.set('owner', '0x1')
+    await estate.update()
+
+    expect(estate.isDirty()).to.equal(false)
+    expect(estate.previous('updated_at')).to.deep.equal(
+      estate.get('updated_at')
+    )
+    expect(queries[1]).to.match(
+      /^pool: UPDATE estates SET "owner" = \$1, "updated_at" = \$2 WHERE/
+    )
+  })
+
+  it('should not add an updated_at attribute if withTimestamps is off', async function() {
+    const parcel = new Parcel({ id: 1 })
+    await parcel.retreive()
+
+    parcel.set('owner', '0x1')
+    await parcel.update()
+
+    expect(parcel.getAll()).to.not.have.property('updated_at')
+  })
+
+  it('should only update the changed columns and skip the query if nothing changed', async function() {
+    const parcel = new Parcel({ id: 1 })
+    await parcel.retreive()
+
+    parcel.set('owner', '0x1')
+    await parcel.update()
+    const result = await parcel.update()
+
+    expect(result).to.equal(undefined)
+    expect(queries.slice(1)).to.deep.equal([
+      'pool: UPDATE parcels SET "owner" = $1 WHERE "id" = $2 ["0x1",1]'
+    ])
+    expect(parcel.isDirty()).to.equal(false)
+  })
+})
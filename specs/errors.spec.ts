@@ -0,0 +1,143 @@
+import { expect } from 'chai'
+import { toHttpError } from '../src/db/errors'
+import { Postgres } from '../src/db/postgres'
+import {
+  BadRequestError,
+  ConflictError,
+  HttpError,
+  NotFoundError,
+  UnprocessableError
+} from '../src/errors'
+import { handleRequest } from '../src/server'
+import { ValidationError } from '../src/validation'
+import { createFakePool, createFakeResponse } from './utils'
+
+function createPgError(fields: object) {
+  return Object.assign(
+    new Error(
+      'duplicate key value violates unique constraint "users_email_key"'
+    ),
+    fields
+  )
+}
+
+describe('Errors', function() {
+  describe('HttpError', function() {
+    it('should keep the status code on each subclass', function() {
+      const error = new NotFoundError()
+
+      expect(error).to.be.instanceOf(HttpError)
+      expect(error.statusCode).to.equal(404)
+      expect(new ValidationError([])).to.be.instanceOf(BadRequestError)
+    })
+  })
+
+  describe('#toHttpError', function() {
+    it('should map unique violations to a conflict, naming the fields but not the values', function() {
+      const pgError = createPgError({
+        code: '23505',
+        constraint: 'parcels_owner_x_key',
+        detail: 'Key (owner, x)=(0x1, 2) already exists.'
+      })
+      const error = toHttpError(pgError) as HttpError
+
+      expect(error).to.be.instanceOf(ConflictError)
+      expect(error.message).to.not.contain('users_email_key')
+      expect(error.data).to.deep.equal({
+        code: 'unique_violation',
+        fields: ['owner', 'x']
+      })
+      expect(error.cause).to.equal(pgError)
+      expect(error).to.include({
+        code: '23505',
+        constraint: 'parcels_owner_x_key'
+      })
+    })
+
+    it('should map foreign key violations depending on the side of the reference', function() {
+      const missing = toHttpError(
+        createPgError({
+          code: '23503',
+          detail: 'Key (owner_id)=(1) is not present in table "users".'
+        })
+      )
+      const referenced = toHttpError(
+        createPgError({
+          code: '23503',
+          detail: 'Key (id)=(1) is still referenced from table "parcels".'
+        })
+      )
+
+      expect(missing).to.be.instanceOf(UnprocessableError)
+      expect(referenced).to.be.instanceOf(ConflictError)
+    })
+
+    it('should map not null violations and invalid values to bad requests', function() {
+      const notNull = toHttpError(
+        createPgError({ code: '23502', column: 'owner' })
+      )
+      const invalid = toHttpError(createPgError({ code: '22P02' }))
+
+      expect(notNull).to.be.instanceOf(BadRequestError)
+      expect(notNull.message).to.equal('owner is required')
+      expect(invalid).to.be.instanceOf(BadRequestError)
+    })
+
+    it('should return other errors as they are', function() {
+      const error = new Error('Connection terminated')
+      expect(toHttpError(error)).to.equal(error)
+    })
+  })
+
+  describe('Postgres', function() {
+    it('should reject with the mapped error', async function() {
+      const db = new Postgres()
+      db.pool = createFakePool([])
+      db.pool.query = async () => {
+        throw createPgError({
+          code: '23505',
+          detail: 'Key (email)=(a@b.c) already exists.'
+        })
+      }
+
+      let thrown: Error | undefined
+      try {
+        await db.insert('users', { email: 'a@b.c' })
+      } catch (error) {
+        thrown = error
+      }
+
+      expect(thrown).to.be.instanceOf(ConflictError)
+    })
+  })
+
+  describe('#handleRequest', function() {
+    it('should send HttpErrors with their status code, message and data', async function() {
+      const res = createFakeResponse()
+      await handleRequest(() => {
+        throw new ConflictError('Taken', { fields: ['email'] })
+      })({} as any, res, () => undefined)
+
+      expect(res.statusCode).to.equal(409)
+      expect(res.body).to.deep.equal({
+        ok: false,
+        data: { fields: ['email'] },
+        error: 'Taken'
+      })
+    })
+
+    it('should hide the message of other errors behind a 500', async function() {
+      const res = createFakeResponse()
+      await handleRequest(() => {
+        throw new Error('relation "users" does not exist')
+      })({} as any, res, () => undefined)
+
+      expect(res.statusCode).to.equal(500)
+      expect(res.body).to.deep.equal({
+        ok: false,
+        data: {},
+        error: 'Internal server error'
+      })
+    })
+  })
+})
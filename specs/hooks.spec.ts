@@ -0,0 +1,85 @@
+import { expect } from 'chai'
+import { Postgres } from '../src/db/postgres'
+import { HookArgs } from '../src/hooks'
+import { Model } from '../src/Model'
+import { createFakePool } from './utils'
+
+describe('Model hooks', function() {
+  let queries: string[]
+  let db: Postgres
+  let calls: string[]
+
+  class Parcel extends Model<any> {
+    static tableName = 'parcels'
+    static withTimestamps = false
+
+    static beforeCreate({ row }: HookArgs<'beforeCreate'>) {
+      calls.push('static beforeCreate')
+      row.owner = row.owner.toLowerCase()
+    }
+  }
+
+  beforeEach(() => {
+    queries = []
+    calls = []
+    db = new Postgres()
+    db.pool = createFakePool(queries, [{ id: 1, owner: '0xabc' }])
+    Parcel.db = db
+  })
+
+  it('should run the static and registered hooks inside a transaction', async function() {
+    const removeHook = Parcel.addHook('afterCreate', async ({ row, db }) => {
+      calls.push('afterCreate')
+      await db.query(`SELECT '${row.owner}'`)
+    })
+
+    const row = await Parcel.create({ owner: '0xABC' })
+    removeHook()
+
+    expect(row).to.deep.equal({ id: 1, owner: '0xabc' })
+    expect(calls).to.deep.equal(['static beforeCreate', 'afterCreate'])
+    expect(queries[0]).to.equal('BEGIN')
+    expect(queries[1]).to.match(/^INSERT INTO parcels/)
+    expect(queries.slice(2)).to.deep.equal([
+      "SELECT '0xabc'",
+      'COMMIT',
+      'release'
+    ])
+  })
+
+  it('should abort the write if a before hook throws', async function() {
+    const removeHook = Parcel.addHook('beforeDelete', () => {
+      throw new Error('Cannot delete parcels')
+    })
+    let thrown: Error | undefined
+
+    try {
+      await Parcel.delete({ id: 1 })
+    } catch (error) {
+      thrown = error
+    }
+    removeHook()
+
+    expect(thrown!.message).to.equal('Cannot delete parcels')
+    expect(queries).to.deep.equal(['BEGIN', 'ROLLBACK', 'release'])
+  })
+
+  it('should skip the transaction if there are no hooks for the operation', async function() {
+    await Parcel.update({ owner: '0x1' }, { id: 1 })
+
+    expect(queries).to.deep.equal([
+      'pool: UPDATE parcels SET "owner" = $1 WHERE "id" = $2 ["0x1",1]'
+    ])
+  })
+
+  it('should let afterFind hooks modify the rows', async function() {
+    const removeHook = Parcel.addHook('afterFind', ({ rows }) => {
+      rows.forEach(row => (row.found = true))
+    })
+
+    const parcel = await Parcel.findOne(1)
+    removeHook()
+
+    expect(parcel).to.deep.equal({ id: 1, owner: '0xabc', found: true })
+  })
+})
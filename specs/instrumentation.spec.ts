@@ -0,0 +1,159 @@
+import { expect } from 'chai'
+import { instrumentQueries, QueryLogEntry } from '../src/db/instrumentation'
+import { Postgres } from '../src/db/postgres'
+import { QueryEvent } from '../src/db/types'
+import { Model } from '../src/Model'
+import { createFakePool } from './utils'
+
+describe('Query instrumentation', function() {
+  let queries: string[]
+  let db: Postgres
+
+  class Parcel extends Model<any> {
+    static tableName = 'parcels'
+  }
+
+  beforeEach(() => {
+    queries = []
+    db = new Postgres()
+    const pool = createFakePool(queries, text =>
+      text.startsWith('EXPLAIN')
+        ? [{ 'QUERY PLAN': 'Seq Scan on parcels' }]
+        : [{ id: 1 }]
+    )
+    const query = pool.query
+    pool.query = async (text: any) => {
+      const result = await query(text)
+      return { ...result, rowCount: result.rows.length }
+    }
+    db.pool = pool
+    Parcel.db = db
+  })
+
+  describe('#onQuery', function() {
+    it('should emit the text, values, duration, row count and calling model of each query', async function() {
+      const events: QueryEvent[] = []
+      const remove = db.onQuery(event => events.push(event))
+
+      await Parcel.find({ owner: '0x' })
+      await db.transaction(tx => tx.query('SELECT 1'))
+      remove()
+      await db.query('SELECT 2')
+
+      expect(events).to.have.length(2)
+      expect(events[0]).to.include({
+        text: 'SELECT * FROM parcels WHERE "owner" = $1 ',
+        rowCount: 1,
+        model: 'Parcel'
+      })
+      expect(events[0].values).to.deep.equal(['0x'])
+      expect(events[0].duration).to.be.a('number')
+      expect(events[1]).to.include({ text: 'SELECT 1', model: undefined })
+    })
+
+    it('should emit failed queries with their error', async function() {
+      const error = new Error('syntax error')
+      const events: QueryEvent[] = []
+      db.pool.query = async () => {
+        throw error
+      }
+      db.onQuery(event => events.push(event))
+
+      let thrown: Error | undefined
+      try {
+        await db.query('SELEC 1')
+      } catch (e) {
+        thrown = e
+      }
+
+      expect(thrown).to.equal(error)
+      expect(events[0]).to.include({ text: 'SELEC 1', rowCount: null, error })
+    })
+  })
+
+  describe('instrumentQueries', function() {
+    let info: QueryLogEntry[]
+    let warn: QueryLogEntry[]
+    const logger = {
+      info: (entry: QueryLogEntry) => info.push(entry),
+      warn: (entry: QueryLogEntry) => warn.push(entry)
+    }
+
+    beforeEach(() => {
+      info = []
+      warn = []
+    })
+
+    it('should log every query redacting the values', async function() {
+      instrumentQueries(db, { logQueries: true, logger })
+
+      await db.query('SELECT * FROM users WHERE email = $1 AND id = $2', [
+        'a@b.c',
+        1
+      ])
+
+      expect(info).to.have.length(1)
+      expect(info[0].values).to.deep.equal(['[REDACTED]', 1])
+      expect(warn).to.deep.equal([])
+    })
+
+    it('should log the slow queries with their plan', async function() {
+      instrumentQueries(db, {
+        slowQueryMillis: 0,
+        explainSlowQueries: true,
+        redact: false,
+        logger
+      })
+
+      await db.query('SELECT * FROM parcels WHERE owner = $1', ['0x'])
+      await new Promise(resolve => setImmediate(resolve))
+
+      expect(info).to.deep.equal([])
+      expect(warn).to.have.length(1)
+      expect(warn[0]).to.include({
+        text: 'SELECT * FROM parcels WHERE owner = $1',
+        plan: 'Seq Scan on parcels'
+      })
+      expect(warn[0].values).to.deep.equal(['0x'])
+      expect(queries).to.include(
+        'pool: EXPLAIN ANALYZE SELECT * FROM parcels WHERE owner = $1'
+      )
+    })
+
+    it('should ignore the errors of the logger once the query is explained', async function() {
+      const rejections: any[] = []
+      const onRejection = (reason: any) => rejections.push(reason)
+      process.on('unhandledRejection', onRejection)
+
+      instrumentQueries(db, {
+        slowQueryMillis: 0,
+        explainSlowQueries: true,
+        logger: {
+          info: () => undefined,
+          warn: () => {
+            throw new Error('Logger failed')
+          }
+        }
+      })
+
+      await db.query('SELECT * FROM parcels')
+      await new Promise(resolve => setImmediate(resolve))
+      process.removeListener('unhandledRejection', onRejection)
+
+      expect(rejections).to.deep.equal([])
+    })
+
+    it('should not explain statements other than SELECTs', async function() {
+      instrumentQueries(db, {
+        slowQueryMillis: 0,
+        explainSlowQueries: true,
+        logger
+      })
+
+      await db.query('DELETE FROM parcels')
+
+      expect(warn).to.have.length(1)
+      expect(queries).to.deep.equal(['pool: DELETE FROM parcels'])
+    })
+  })
+})
@@ -0,0 +1,129 @@
+import { expect } from 'chai'
+import { Postgres } from '../src/db/postgres'
+import { Model } from '../src/Model'
+import {
+  decodeCursor,
+  encodeCursor,
+  toKeysetConditions
+} from '../src/pagination'
+import { extractPaginationFromReq } from '../src/server'
+import { ValidationError } from '../src/validation'
+import { createFakePool } from './utils'
+
+describe('pagination', function() {
+  describe('toKeysetConditions', function() {
+    it('should match the rows after the values for each direction', function() {
+      expect(
+        toKeysetConditions({ price: 'DESC', id: 'ASC' }, [10, 3])
+      ).to.deep.equal({
+        $or: [{ price: { $lt: 10 } }, { price: 10, id: { $gt: 3 } }]
+      })
+    })
+  })
+
+  describe('cursors', function() {
+    it('should decode the values encoded', function() {
+      const cursor = encodeCursor({ id: 3, price: 10, name: 'a' }, [
+        'price',
+        'id'
+      ])
+      expect(decodeCursor(cursor, ['price', 'id'])).to.deep.equal([10, 3])
+    })
+
+    it('should throw a ValidationError for invalid cursors', function() {
+      expect(() => decodeCursor('nope', ['id'])).to.throw(ValidationError)
+    })
+  })
+
+  describe('Model.paginate', function() {
+    let queries: string[]
+
+    class Parcel extends Model<any> {
+      static tableName = 'parcels'
+    }
+
+    beforeEach(() => {
+      queries = []
+      Parcel.db = new Postgres()
+      Parcel.db.pool = createFakePool(queries, text =>
+        text.includes('COUNT')
+          ? [{ count: '45' }]
+          : [{ id: 1 }, { id: 2 }, { id: 3 }]
+      )
+    })
+
+    it('should return the page with the totals', async function() {
+      const page = await Parcel.paginate({ x: 1 }, { page: 2, perPage: 20 })
+
+      expect(queries[0]).to.equal(
+        'pool: SELECT * FROM parcels WHERE "x" = $1 ORDER BY "id" ASC LIMIT 20 OFFSET 20 [1]'
+      )
+      expect(page).to.deep.equal({
+        rows: [{ id: 1 }, { id: 2 }, { id: 3 }],
+        total: 45,
+        page: 2,
+        pages: 3,
+        nextCursor: null
+      })
+    })
+
+    it('should order by the primary key after the supplied columns', async function() {
+      await Parcel.paginate(undefined, { orderBy: { x: 'DESC' } })
+
+      expect(queries[0]).to.equal(
+        'pool: SELECT * FROM parcels ORDER BY "x" DESC,"id" ASC LIMIT 20 OFFSET 0 []'
+      )
+    })
+
+    it('should fetch one extra row to build the next cursor', async function() {
+      const cursor = encodeCursor({ id: 0 }, ['id'])
+      const page = await Parcel.paginateByCursor(undefined, {
+        cursor,
+        perPage: 2
+      })
+
+      expect(queries[0]).to.equal(
+        'pool: SELECT * FROM parcels WHERE (("id" > $1)) ORDER BY "id" ASC LIMIT 3 [0]'
+      )
+      expect(page.rows).to.deep.equal([{ id: 1 }, { id: 2 }])
+      expect(decodeCursor(page.nextCursor!, ['id'])).to.deep.equal([2])
+    })
+  })
+
+  describe('extractPaginationFromReq', function() {
+    it('should read the page, limit and cursor from the query string', function() {
+      const req: any = { query: { page: '3', limit: '50', cursor: 'abc' } }
+      expect(extractPaginationFromReq(req)).to.deep.equal({
+        page: 3,
+        perPage: 50,
+        cursor: 'abc'
+      })
+    })
+
+    it('should use the defaults for missing values', function() {
+      const req: any = { query: {} }
+      expect(extractPaginationFromReq(req, { perPage: 10 })).to.deep.equal({
+        page: 1,
+        perPage: 10,
+        cursor: null
+      })
+    })
+
+    it('should throw a ValidationError listing the invalid values', function() {
+      const req: any = { query: { page: '0', limit: '500' } }
+      let thrown: ValidationError | undefined
+
+      try {
+        extractPaginationFromReq(req)
+      } catch (error) {
+        thrown = error
+      }
+
+      expect(thrown!.statusCode).to.equal(400)
+      expect(thrown!.data.errors.map(error => error.field)).to.deep.equal([
+        'page',
+        'limit'
+      ])
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import { expect } from 'chai'
+import { extractParamsFromReq } from '../src/server'
+import { ValidationError } from '../src/validation'
+
+describe('#extractParamsFromReq', function() {
+  const address = '0x' + 'AB'.repeat(20)
+
+  it('should coerce each param to its type', function() {
+    const req: any = {
+      query: { limit: '10', active: 'false', ids: '1,2,3', offset: '0' },
+      body: { owner: address, data: { x: 1 }, name: '' },
+      params: { id: '7f1c6a8e-4d2b-4a8e-9c5d-3b2a1f0e9d8c' }
+    }
+
+    const params = extractParamsFromReq(req, {
+      limit: { type: 'int', min: 1, max: 100 },
+      offset: { type: 'int' },
+      active: { type: 'bool' },
+      ids: { type: 'array', items: { type: 'int' } },
+      owner: { type: 'address', source: 'body' },
+      data: { type: 'json' },
+      name: { type: 'string' },
+      id: { type: 'uuid' },
+      status: { type: 'enum', values: ['open', 'sold'], default: 'open' },
+      price: { type: 'float', optional: true }
+    })
+    const limit: number = params.limit
+
+    expect(limit).to.equal(10)
+    expect(params).to.deep.equal({
+      limit: 10,
+      offset: 0,
+      active: false,
+      ids: [1, 2, 3],
+      owner: address.toLowerCase(),
+      data: { x: 1 },
+      name: '',
+      id: '7f1c6a8e-4d2b-4a8e-9c5d-3b2a1f0e9d8c',
+      status: 'open'
+    })
+  })
+
+  it('should only read the param from its source, if supplied', function() {
+    const req: any = { query: { id: '1' }, params: {} }
+    const params = extractParamsFromReq(req, {
+      id: { type: 'int', source: 'params', optional: true }
+    })
+
+    expect(params.id).to.equal(undefined)
+  })
+
+  it('should throw a single ValidationError listing every invalid field', function() {
+    const req: any = {
+      query: { limit: '1000', page: 'abc', status: 'closed', ids: '1,x' }
+    }
+    let thrown: ValidationError | undefined
+
+    try {
+      extractParamsFromReq(req, {
+        limit: { type: 'int', max: 100 },
+        page: { type: 'int' },
+        status: { type: 'enum', values: ['open', 'sold'] },
+        ids: { type: 'array', items: { type: 'int' } },
+        owner: { type: 'address' }
+      })
+    } catch (error) {
+      thrown = error
+    }
+
+    expect(thrown).to.be.instanceOf(ValidationError)
+    expect(thrown!.statusCode).to.equal(400)
+    expect(
+      thrown!.data.errors.map(error => [error.field, error.rule])
+    ).to.deep.equal([
+      ['limit', 'max'],
+      ['page', 'type'],
+      ['status', 'enum'],
+      ['ids.1', 'type'],
+      ['owner', 'required']
+    ])
+  })
+})
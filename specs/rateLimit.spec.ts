@@ -0,0 +1,172 @@
+import { expect } from 'chai'
+import { Postgres } from '../src/db/postgres'
+import { TooManyRequestsError } from '../src/errors'
+import {
+  handleRequest,
+  MemoryRateLimitStore,
+  PostgresRateLimitStore,
+  rateLimit
+} from '../src/server'
+import { createFakePool, createFakeRequest, createFakeResponse } from './utils'
+
+async function getError(promise: Promise<any>): Promise<any> {
+  try {
+    await promise
+  } catch (error) {
+    return error
+  }
+  return undefined
+}
+
+describe('Rate limit', function() {
+  const handler = () => 'ok'
+  const originalNow = Date.now
+  let now: number
+
+  beforeEach(function() {
+    now = 1000000
+    Date.now = () => now
+  })
+
+  afterEach(function() {
+    Date.now = originalNow
+  })
+
+  describe('fixed-window', function() {
+    it('should allow up to the limit on each window', async function() {
+      const limited = rateLimit(handler, { limit: 2, windowMillis: 1000 })
+      const res = createFakeResponse()
+
+      expect(await limited(createFakeRequest(), res)).to.equal('ok')
+      expect(await limited(createFakeRequest(), res)).to.equal('ok')
+      const error = await getError(limited(createFakeRequest(), res))
+
+      expect(error).to.be.instanceOf(TooManyRequestsError)
+      expect(error.data).to.deep.equal({ retryAfter: 1 })
+      expect(res.headers['Retry-After']).to.equal('1')
+
+      now += 1000
+      expect(await limited(createFakeRequest(), res)).to.equal('ok')
+    })
+
+    it('should keep separate limits for each ip', async function() {
+      const limited = rateLimit(handler, { limit: 1, windowMillis: 1000 })
+
+      await limited(createFakeRequest({ ip: '10.0.0.1' }), createFakeResponse())
+
+      expect(
+        await limited(
+          createFakeRequest({ ip: '10.0.0.2' }),
+          createFakeResponse()
+        )
+      ).to.equal('ok')
+      expect(
+        await getError(
+          limited(createFakeRequest({ ip: '10.0.0.1' }), createFakeResponse())
+        )
+      ).to.be.instanceOf(TooManyRequestsError)
+    })
+  })
+
+  describe('token-bucket', function() {
+    it('should allow bursts up to the limit and refill over time', async function() {
+      const limited = rateLimit(handler, {
+        limit: 2,
+        windowMillis: 10000,
+        strategy: 'token-bucket'
+      })
+      const res = createFakeResponse()
+
+      await limited(createFakeRequest(), res)
+      await limited(createFakeRequest(), res)
+      const error = await getError(limited(createFakeRequest(), res))
+      expect(error.data).to.deep.equal({ retryAfter: 5 })
+
+      now += 5000
+      expect(await limited(createFakeRequest(), res)).to.equal('ok')
+      expect(
+        await getError(limited(createFakeRequest(), res))
+      ).to.be.instanceOf(TooManyRequestsError)
+    })
+  })
+
+  it('should key by the authenticated address or a custom function', async function() {
+    const store = new MemoryRateLimitStore()
+    const byAddress = rateLimit(handler, {
+      limit: 1,
+      windowMillis: 1000,
+      key: 'address',
+      store
+    })
+    const byHeader = rateLimit(handler, {
+      limit: 1,
+      windowMillis: 1000,
+      key: () => 'custom',
+      prefix: 'header:',
+      store
+    })
+
+    await byAddress(
+      createFakeRequest({ auth: { address: '0xabc' } }),
+      createFakeResponse()
+    )
+    await byAddress(createFakeRequest({ ip: '10.0.0.2' }), createFakeResponse())
+    await byHeader(createFakeRequest(), createFakeResponse())
+
+    expect([...store.entries.keys()]).to.deep.equal([
+      '0xabc',
+      '10.0.0.2',
+      'header:custom'
+    ])
+  })
+
+  it('should send limited requests as a 429 through handleRequest', async function() {
+    const route = handleRequest(
+      rateLimit(handler, { limit: 1, windowMillis: 30000 })
+    )
+    const res = createFakeResponse()
+
+    await route(createFakeRequest(), createFakeResponse(), () => undefined)
+    await route(createFakeRequest(), res, () => undefined)
+
+    expect(res.statusCode).to.equal(429)
+    expect(res.headers['Retry-After']).to.equal('30')
+    expect(res.body).to.deep.equal({
+      ok: false,
+      data: { retryAfter: 30 },
+      error: 'Too many requests'
+    })
+  })
+
+  describe('PostgresRateLimitStore', function() {
+    it('should update the state of the key while holding its row lock', async function() {
+      const queries: string[] = []
+      const db = new Postgres()
+      db.pool = createFakePool(queries, text =>
+        text.includes('FOR UPDATE')
+          ? [{ state: { count: 1, resetAt: now + 500 }, is_valid: true }]
+          : []
+      )
+      const limited = rateLimit(handler, {
+        limit: 1,
+        windowMillis: 1000,
+        store: new PostgresRateLimitStore(db)
+      })
+
+      const error = await getError(
+        limited(createFakeRequest(), createFakeResponse())
+      )
+
+      expect(error).to.be.instanceOf(TooManyRequestsError)
+      expect(queries.map(query => query.replace(/\s+/g, ' '))).to.deep.equal([
+        'BEGIN',
+        'INSERT INTO rate_limits ("key", "state", "expires_at") VALUES ($1, NULL, NOW()) ON CONFLICT ("key") DO NOTHING ["10.0.0.1"]',
+        'SELECT "state", "expires_at" > NOW() AS "is_valid" FROM rate_limits WHERE "key" = $1 FOR UPDATE ["10.0.0.1"]',
+        `UPDATE rate_limits SET "state" = $1, "expires_at" = NOW() + $2 * INTERVAL '1 millisecond' WHERE "key" = $3 ["{\\"count\\":1,\\"resetAt\\":${now +
+          500}}",1000,"10.0.0.1"]`,
+        'COMMIT',
+        'release'
+      ])
+    })
+  })
+})
@@ -0,0 +1,116 @@
+import { expect } from 'chai'
+import { Postgres } from '../src/db/postgres'
+import { Model } from '../src/Model'
+import { belongsTo, groupIncludes, hasMany, manyToMany } from '../src/relations'
+import { createFakePool } from './utils'
+
+describe('Model relations', function() {
+  const defaultDb = Model.db
+  let queries: string[]
+
+  class User extends Model<any> {
+    static tableName = 'users'
+  }
+  class Tag extends Model<any> {
+    static tableName = 'tags'
+  }
+  class Parcel extends Model<any> {
+    static tableName = 'parcels'
+    static relations = {
+      owner: belongsTo(() => User, 'owner_id'),
+      tags: manyToMany(() => Tag, {
+        through: 'parcel_tags',
+        foreignKey: 'parcel_id',
+        otherKey: 'tag_id'
+      })
+    }
+  }
+  class Estate extends Model<any> {
+    static tableName = 'estates'
+    static relations = { parcels: hasMany(() => Parcel, 'estate_id') }
+  }
+
+  beforeEach(() => {
+    queries = []
+
+    const db = new Postgres()
+    db.pool = createFakePool(queries, text => {
+      if (text.includes('FROM estates')) {
+        return [{ id: 1 }, { id: 2 }]
+      } else if (text.includes('FROM parcels')) {
+        return [
+          { id: 10, estate_id: 1, owner_id: 5 },
+          { id: 11, estate_id: 1, owner_id: null }
+        ]
+      } else if (text.includes('FROM users')) {
+        return [{ id: 5 }]
+      } else if (text.includes('FROM tags')) {
+        return [{ id: 7, __relation_key: 10 }]
+      }
+      return []
+    })
+    Model.db = db
+  })
+
+  afterEach(() => {
+    Model.db = defaultDb
+  })
+
+  it('should load nested relations with one query per relation', async function() {
+    const estates = await Estate.find({}, undefined, {
+      include: ['parcels.owner', 'parcels.tags']
+    })
+
+    expect(queries.length).to.equal(4)
+    expect(queries[1]).to.equal(
+      'pool: SELECT * FROM parcels WHERE "estate_id" IN ($1, $2)  [1,2]'
+    )
+    expect(queries[2]).to.equal(
+      'pool: SELECT * FROM users WHERE "id" IN ($1)  [5]'
+    )
+    expect(queries[3]).to.equal(
+      'pool: SELECT "tags".*, "parcel_tags"."parcel_id" AS "__relation_key" FROM tags' +
+        ' INNER JOIN "parcel_tags" ON "parcel_tags"."tag_id" = "tags"."id"' +
+        ' WHERE "parcel_tags"."parcel_id" IN ($1, $2) [10,11]'
+    )
+    expect(estates).to.deep.equal([
+      {
+        id: 1,
+        parcels: [
+          {
+            id: 10,
+            estate_id: 1,
+            owner_id: 5,
+            owner: { id: 5 },
+            tags: [{ id: 7 }]
+          },
+          { id: 11, estate_id: 1, owner_id: null, owner: null, tags: [] }
+        ]
+      },
+      { id: 2, parcels: [] }
+    ])
+  })
+
+  it('should throw for unknown relations', async function() {
+    let thrown: Error | undefined
+
+    try {
+      await Estate.findOne(1, undefined, { include: ['owner'] })
+    } catch (error) {
+      thrown = error
+    }
+
+    expect(thrown!.message).to.equal('Unknown relation owner for estates')
+  })
+
+  describe('groupIncludes', function() {
+    it('should group the includes by their first relation', function() {
+      expect(
+        Array.from(groupIncludes(['estate', 'estate.owner', 'tags']))
+      ).to.deep.equal([
+        ['estate', ['owner']],
+        ['tags', []]
+      ])
+    })
+  })
+})
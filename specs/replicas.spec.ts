@@ -0,0 +1,73 @@
+import { expect } from 'chai'
+import { Postgres } from '../src/db/postgres'
+import { createFakePool } from './utils'
+
+describe('Read replicas', function() {
+  let db: Postgres
+  let primary: string[]
+  let replicaA: string[]
+  let replicaB: string[]
+
+  beforeEach(() => {
+    primary = []
+    replicaA = []
+    replicaB = []
+    db = new Postgres()
+    db.pool = createFakePool(primary)
+    db.replicas = [createFakePool(replicaA), createFakePool(replicaB)]
+  })
+
+  it('should send the reads to the replicas in turns and the writes to the primary', async function() {
+    await db.select('parcels')
+    await db.select('parcels')
+    await db.count('parcels', {})
+    await db.update('parcels', { owner: '0x' }, { id: 1 })
+
+    expect(replicaA.length + replicaB.length).to.equal(3)
+    expect(Math.abs(replicaA.length - replicaB.length)).to.equal(1)
+    expect(primary).to.have.length(1)
+    expect(primary[0]).to.match(/^pool: UPDATE parcels/)
+  })
+
+  it('should read from the primary inside transactions and usePrimary', async function() {
+    await db.transaction(() => db.select('parcels'))
+    await db.usePrimary(() => db.selectOne('parcels', { id: 1 }))
+
+    expect(replicaA).to.deep.equal([])
+    expect(replicaB).to.deep.equal([])
+    expect(primary).to.deep.equal([
+      'BEGIN',
+      'SELECT * FROM parcels  []',
+      'COMMIT',
+      'release',
+      'pool: SELECT * FROM parcels WHERE "id" = $1 LIMIT 1 [1]'
+    ])
+  })
+
+  it('should skip the replicas that fail their health check', async function() {
+    db.replicas[0].query = async () => {
+      throw new Error('Connection terminated')
+    }
+
+    expect(await db.checkReplicas()).to.deep.equal([false, true])
+
+    await db.select('parcels')
+    await db.select('parcels')
+    expect(replicaB).to.deep.equal([
+      'pool: SELECT 1',
+      'pool: SELECT * FROM parcels  []',
+      'pool: SELECT * FROM parcels  []'
+    ])
+  })
+
+  it('should fall back to the primary if every replica is unhealthy', async function() {
+    db.replicas = [db.replicas[0]]
+    db.replicas[0].query = async () => {
+      throw new Error('Connection terminated')
+    }
+    await db.checkReplicas()
+
+    await db.select('parcels')
+    expect(primary).to.deep.equal(['pool: SELECT * FROM parcels  []'])
+  })
+})
@@ -0,0 +1,120 @@
+import { expect } from 'chai'
+import { ForbiddenError, NotFoundError } from '../src/errors'
+import {
+  addErrorReporter,
+  handleRequest,
+  MemoryReporter,
+  RollbarReporter
+} from '../src/server'
+import { createFakeRequest, createFakeResponse } from './utils'
+
+function createRequest(): any {
+  return createFakeRequest({
+    originalUrl: '/api/parcels/1?include=owner',
+    headers: { 'x-request-id': 'abc-123' },
+    user: { address: '0xabc' }
+  })
+}
+
+async function failWith(error: Error) {
+  await handleRequest(() => {
+    throw error
+  })(createRequest(), createFakeResponse(), () => undefined)
+}
+
+describe('Error reporters', function() {
+  let reporter: MemoryReporter
+  let removers: (() => void)[]
+
+  beforeEach(function() {
+    reporter = new MemoryReporter()
+    removers = [addErrorReporter(reporter)]
+  })
+
+  afterEach(function() {
+    removers.forEach(remove => remove())
+  })
+
+  it('should report server errors with the request context', async function() {
+    const error = new Error('Connection lost')
+    await failWith(error)
+
+    expect(reporter.reports).to.deep.equal([
+      {
+        error,
+        context: {
+          method: 'GET',
+          route: '/api/parcels/:id',
+          url: '/api/parcels/1?include=owner',
+          statusCode: 500,
+          user: { address: '0xabc' },
+          requestId: 'abc-123'
+        }
+      }
+    ])
+  })
+
+  it('should skip client errors by default', async function() {
+    await failWith(new NotFoundError())
+
+    expect(reporter.reports).to.have.length(0)
+  })
+
+  it('should use the filter to choose which status codes to report', async function() {
+    const clientErrors = new MemoryReporter()
+    removers.push(
+      addErrorReporter(clientErrors, {
+        filter: statusCode => statusCode === 403
+      })
+    )
+
+    await failWith(new ForbiddenError())
+    await failWith(new NotFoundError())
+
+    expect(
+      clientErrors.reports.map(report => report.context.statusCode)
+    ).to.deep.equal([403])
+  })
+
+  it('should keep sending the response when a reporter fails', async function() {
+    removers.push(
+      addErrorReporter({
+        report: () => {
+          throw new Error('Reporter down')
+        }
+      })
+    )
+    const res = createFakeResponse()
+
+    await handleRequest(() => {
+      throw new Error('Connection lost')
+    })(createRequest(), res, () => undefined)
+
+    expect(res.statusCode).to.equal(500)
+    expect(reporter.reports).to.have.length(1)
+  })
+
+  it('should stop reporting once the reporter is removed', async function() {
+    removers.forEach(remove => remove())
+    await failWith(new Error('Connection lost'))
+
+    expect(reporter.reports).to.have.length(0)
+  })
+
+  it('should send the context to Rollbar as custom data', function() {
+    const calls: any[][] = []
+    const rollbar: any = { error: (...args: any[]) => calls.push(args) }
+    const error = new Error('Connection lost')
+
+    new RollbarReporter(rollbar).report(error, {
+      method: 'GET',
+      route: '/',
+      url: '/',
+      statusCode: 500
+    })
+
+    expect(calls).to.deep.equal([
+      [error, { method: 'GET', route: '/', url: '/', statusCode: 500 }]
+    ])
+  })
+})
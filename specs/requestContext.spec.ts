@@ -0,0 +1,109 @@
+import { expect } from 'chai'
+import { Postgres } from '../src/db/postgres'
+import { QueryEvent } from '../src/db/types'
+import { getRequestContext } from '../src/requestContext'
+import {
+  AccessLogEntry,
+  addErrorReporter,
+  handleRequest,
+  MemoryReporter,
+  useAccessLogger
+} from '../src/server'
+import { createFakePool, createFakeRequest, createFakeResponse } from './utils'
+
+describe('Request context', function() {
+  let entries: AccessLogEntry[]
+  let removers: (() => void)[]
+
+  beforeEach(function() {
+    entries = []
+    removers = [useAccessLogger(entry => entries.push(entry))]
+  })
+
+  afterEach(function() {
+    removers.forEach(remove => remove())
+  })
+
+  it('should generate a request id and send it back', async function() {
+    const res = createFakeResponse()
+    let requestId: string | undefined
+
+    await handleRequest(() => {
+      const context = getRequestContext()
+      requestId = context && context.requestId
+    })(createFakeRequest(), res, () => undefined)
+
+    expect(requestId).to.match(/^[0-9a-f]{32}$/)
+    expect(res.headers['X-Request-Id']).to.equal(requestId)
+    expect(getRequestContext()).to.equal(undefined)
+  })
+
+  it('should forward a valid X-Request-Id and ignore invalid ones', async function() {
+    const forwarded = createFakeResponse()
+    const invalid = createFakeResponse()
+
+    await handleRequest(() => undefined)(
+      createFakeRequest({ headers: { 'x-request-id': 'abc-123' } }),
+      forwarded,
+      () => undefined
+    )
+    await handleRequest(() => undefined)(
+      createFakeRequest({ headers: { 'x-request-id': 'abc 123\n' } }),
+      invalid,
+      () => undefined
+    )
+
+    expect(forwarded.headers['X-Request-Id']).to.equal('abc-123')
+    expect(invalid.headers['X-Request-Id']).to.not.equal('abc 123\n')
+  })
+
+  it('should log each request with its status, duration and id', async function() {
+    await handleRequest(() => {
+      const context = getRequestContext()
+      if (context) context.user = '0xabc'
+      throw new Error('Connection lost')
+    })(
+      createFakeRequest({ headers: { 'x-request-id': 'abc-123' } }),
+      createFakeResponse(),
+      () => undefined
+    )
+
+    expect(entries).to.have.length(1)
+    expect(entries[0]).to.include({
+      requestId: 'abc-123',
+      method: 'GET',
+      path: '/api/parcels/1',
+      route: '/api/parcels/:id',
+      status: 500,
+      user: '0xabc'
+    })
+    expect(entries[0].duration).to.be.a('number')
+  })
+
+  it('should tag errors and queries with the request id', async function() {
+    const reporter = new MemoryReporter()
+    const events: QueryEvent[] = []
+    const db = new Postgres()
+    db.pool = createFakePool([])
+    removers.push(
+      addErrorReporter(reporter),
+      db.onQuery(event => events.push(event))
+    )
+
+    await handleRequest(async () => {
+      await db.query('SELECT 1')
+      throw new Error('Connection lost')
+    })(
+      createFakeRequest({ headers: { 'x-request-id': 'abc-123' } }),
+      createFakeResponse(),
+      () => undefined
+    )
+    await db.query('SELECT 2')
+
+    expect(reporter.reports[0].context.requestId).to.equal('abc-123')
+    expect(events.map(event => event.requestId)).to.deep.equal([
+      'abc-123',
+      undefined
+    ])
+  })
+})
@@ -0,0 +1,166 @@
+import { expect } from 'chai'
+import { Readable, Writable } from 'stream'
+import {
+  created,
+  csv,
+  file,
+  handleRequest,
+  noContent,
+  redirect,
+  stream
+} from '../src/server'
+
+class FakeResponse extends Writable {
+  statusCode = 200
+  headers: Record<string, string> = {}
+  headersSent = false
+  chunks: string[] = []
+  body: any
+
+  _write(chunk: any, encoding: string, callback: () => void) {
+    this.headersSent = true
+    this.chunks.push(String(chunk))
+    callback()
+  }
+
+  setHeader(name: string, value: string) {
+    this.headers[name] = value
+  }
+
+  status(code: number) {
+    this.statusCode = code
+    return this
+  }
+
+  type(contentType: string) {
+    this.headers['Content-Type'] = contentType
+    return this
+  }
+
+  attachment(filename: string) {
+    this.headers['Content-Disposition'] = `attachment; filename="${filename}"`
+    return this
+  }
+
+  location(url: string) {
+    this.headers['Location'] = url
+    return this
+  }
+
+  redirect(status: number, url: string) {
+    this.statusCode = status
+    this.headers['Location'] = url
+  }
+
+  json(body: any) {
+    this.body = body
+    return this
+  }
+
+  sendFile(filePath: string, callback: (error?: Error) => void) {
+    callback(Object.assign(new Error(`ENOENT ${filePath}`), { code: 'ENOENT' }))
+  }
+}
+
+async function send(callback: () => any): Promise<FakeResponse> {
+  const res = new FakeResponse()
+  await handleRequest(callback)(
+    { headers: {} } as any,
+    res as any,
+    () => undefined
+  )
+  return res
+}
+
+describe('Responses', function() {
+  it('should send created responses with their status and location', async function() {
+    const res = await send(() => created({ id: 1 }, '/api/parcels/1'))
+
+    expect(res.statusCode).to.equal(201)
+    expect(res.headers['Location']).to.equal('/api/parcels/1')
+    expect(res.body).to.deep.equal({ ok: true, data: { id: 1 } })
+  })
+
+  it('should send empty and redirect responses', async function() {
+    const empty = await send(() => noContent())
+    const redirected = await send(() => redirect('/login', 301))
+
+    expect(empty.statusCode).to.equal(204)
+    expect(empty.chunks).to.deep.equal([])
+    expect(empty.body).to.equal(undefined)
+    expect(redirected.statusCode).to.equal(301)
+    expect(redirected.headers['Location']).to.equal('/login')
+  })
+
+  it('should send missing files as a 404 envelope', async function() {
+    const res = await send(() => file('missing.png'))
+
+    expect(res.statusCode).to.equal(404)
+    expect(res.body).to.deep.equal({
+      ok: false,
+      data: {},
+      error: 'File not found'
+    })
+  })
+
+  it('should stream the rows as CSV, escaping the values', async function() {
+    async function* rows() {
+      yield { id: 1, name: 'Genesis, Plaza', tags: ['a'] }
+      yield { id: 2, name: 'The "Dock"', tags: null }
+    }
+
+    const res = await send(() => csv(rows(), { filename: 'parcels.csv' }))
+
+    expect(res.headers['Content-Type']).to.equal('text/csv; charset=utf-8')
+    expect(res.headers['Content-Disposition']).to.equal(
+      'attachment; filename="parcels.csv"'
+    )
+    expect(res.chunks.join('')).to.equal(
+      'id,name,tags\r\n1,"Genesis, Plaza","[""a""]"\r\n2,"The ""Dock""",\r\n'
+    )
+  })
+
+  it('should send the CSV header for the supplied columns if there are no rows', async function() {
+    const res = await send(() => csv([], { columns: ['id', 'name'] }))
+
+    expect(res.chunks.join('')).to.equal('id,name\r\n')
+  })
+
+  it('should pipe Node readable streams returned by the callback', async function() {
+    const res = await send(() => Readable.from(['a', 'b']))
+
+    expect(res.headers['Content-Type']).to.equal('application/octet-stream')
+    expect(res.chunks.join('')).to.equal('ab')
+  })
+
+  it('should use the error envelope for errors before the first chunk', async function() {
+    async function* failing() {
+      throw new Error('Connection lost')
+    }
+
+    const res = await send(() =>
+      stream(failing(), { contentType: 'text/plain' })
+    )
+
+    expect(res.statusCode).to.equal(500)
+    expect(res.headers['Content-Type']).to.equal(undefined)
+    expect(res.body).to.deep.equal({
+      ok: false,
+      data: {},
+      error: 'Internal server error'
+    })
+  })
+
+  it('should close the connection for errors after the first chunk', async function() {
+    async function* failing() {
+      yield 'a'
+      throw new Error('Connection lost')
+    }
+
+    const res = await send(() => stream(failing()))
+
+    expect(res.chunks).to.deep.equal(['a'])
+    expect(res.destroyed).to.equal(true)
+    expect(res.body).to.equal(undefined)
+  })
+})
@@ -0,0 +1,126 @@
+import { expect } from 'chai'
+import {
+  getIndexDefinitions,
+  getSchemaDrift,
+  normalizeType,
+  toCreateIndexSQL,
+  toCreateTableSQL
+} from '../src/db/schema'
+import { ColumnDefinitions } from '../src/db/types'
+
+describe('schema', function() {
+  const columns: ColumnDefinitions = {
+    id: { type: 'serial' },
+    owner: { type: 'varchar(42)', nullable: false, index: true },
+    price: { type: 'numeric', default: 0 },
+    name: { type: 'text', unique: true }
+  }
+
+  describe('toCreateTableSQL', function() {
+    it('should build the CREATE TABLE statement', function() {
+      expect(toCreateTableSQL('parcels', columns, 'id')).to.equal(
+        `CREATE TABLE IF NOT EXISTS "parcels" (
+  "id" serial NOT NULL,
+  "owner" varchar(42) NOT NULL,
+  "price" numeric DEFAULT 0,
+  "name" text UNIQUE,
+  PRIMARY KEY ("id")
+)`
+      )
+    })
+  })
+
+  describe('toCreateIndexSQL', function() {
+    it('should build the CREATE INDEX statement for each index', function() {
+      const indexes = getIndexDefinitions(columns, [
+        { columns: ['owner', 'price'], unique: true, name: 'owner_price' }
+      ])
+
+      expect(
+        indexes.map(index => toCreateIndexSQL('parcels', index))
+      ).to.deep.equal([
+        'CREATE INDEX IF NOT EXISTS "parcels_owner_idx" ON "parcels" ("owner")',
+        'CREATE UNIQUE INDEX IF NOT EXISTS "owner_price" ON "parcels" ("owner", "price")'
+      ])
+    })
+  })
+
+  describe('normalizeType', function() {
+    it('should use the names Postgres reports', function() {
+      expect(normalizeType('integer')).to.deep.equal({
+        name: 'int4',
+        length: null
+      })
+      expect(normalizeType('character varying(42)')).to.deep.equal({
+        name: 'varchar',
+        length: 42
+      })
+      expect(normalizeType('numeric(10, 2)')).to.deep.equal({
+        name: 'numeric',
+        length: null
+      })
+      expect(normalizeType('TEXT[]')).to.deep.equal({
+        name: '_text',
+        length: null
+      })
+    })
+  })
+
+  describe('getSchemaDrift', function() {
+    it('should report every difference with the database', function() {
+      const drift = getSchemaDrift(
+        {
+          tableName: 'parcels',
+          columns,
+          indexes: getIndexDefinitions(columns),
+          primaryKey: 'id'
+        },
+        [
+          {
+            column_name: 'id',
+            udt_name: 'int4',
+            is_nullable: 'NO',
+            character_maximum_length: null
+          },
+          {
+            column_name: 'owner',
+            udt_name: 'varchar',
+            is_nullable: 'YES',
+            character_maximum_length: 40
+          },
+          {
+            column_name: 'price',
+            udt_name: 'numeric',
+            is_nullable: 'YES',
+            character_maximum_length: null
+          },
+          {
+            column_name: 'legacy',
+            udt_name: 'text',
+            is_nullable: 'YES',
+            character_maximum_length: null
+          }
+        ],
+        ['parcels_pkey']
+      )
+
+      expect(drift).to.deep.equal([
+        {
+          column: 'owner',
+          issue: 'type',
+          expected: 'varchar(42)',
+          actual: 'varchar(40)'
+        },
+        {
+          column: 'owner',
+          issue: 'nullable',
+          expected: 'NOT NULL',
+          actual: 'NULL'
+        },
+        { column: 'name', issue: 'missing' },
+        { column: 'legacy', issue: 'unexpected' },
+        { index: 'parcels_owner_idx', issue: 'missing' }
+      ])
+    })
+  })
+})
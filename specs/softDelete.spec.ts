@@ -0,0 +1,86 @@
+import { expect } from 'chai'
+import { Postgres } from '../src/db/postgres'
+import { Model } from '../src/Model'
+import { createFakePool } from './utils'
+
+describe('Soft deletes', function() {
+  let queries: string[]
+  let db: Postgres
+
+  class User extends Model<any> {
+    static tableName = 'users'
+    static withTimestamps = false
+    static softDelete = true
+  }
+
+  beforeEach(() => {
+    queries = []
+    db = new Postgres()
+    db.pool = createFakePool(queries, [{ count: '1' }])
+    User.db = db
+  })
+
+  it('should skip the deleted rows when reading', async function() {
+    await User.find({ email: 'a@b.c' })
+    await User.findOne(1)
+    await User.count({})
+
+    expect(queries).to.deep.equal([
+      'pool: SELECT * FROM users WHERE (("email" = $1) AND ("deleted_at" IS NULL))  ["a@b.c"]',
+      'pool: SELECT * FROM users WHERE (("id" = $1) AND ("deleted_at" IS NULL)) LIMIT 1 [1]',
+      'pool: SELECT COUNT(*) as count FROM users WHERE "deleted_at" IS NULL  []'
+    ])
+  })
+
+  it('should read the deleted rows using withDeleted and onlyDeleted', async function() {
+    await User.withDeleted().find({ email: 'a@b.c' })
+    await User.onlyDeleted().count({})
+
+    expect(queries).to.deep.equal([
+      'pool: SELECT * FROM users WHERE "email" = $1  ["a@b.c"]',
+      'pool: SELECT COUNT(*) as count FROM users WHERE "deleted_at" IS NOT NULL  []'
+    ])
+  })
+
+  it('should set deleted_at on delete and remove the rows on forceDelete', async function() {
+    await User.delete({ id: 1 })
+    await User.forceDelete({ id: 1 })
+
+    expect(queries[0]).to.match(
+      /^pool: UPDATE users SET "deleted_at" = \$1 WHERE \(\("id" = \$2\) AND \("deleted_at" IS NULL\)\)/
+    )
+    expect(queries[1]).to.equal('pool: DELETE FROM users WHERE "id" = $1 [1]')
+  })
+
+  it('should clear deleted_at on restore', async function() {
+    await User.restore({ id: 1 })
+
+    expect(queries).to.deep.equal([
+      'pool: UPDATE users SET "deleted_at" = $1 WHERE (("id" = $2) AND ("deleted_at" IS NOT NULL)) [null,1]'
+    ])
+  })
+
+  it('should reject restoring rows of a Model without soft deletes', async function() {
+    class Parcel extends Model<any> {
+      static tableName = 'parcels'
+    }
+    let thrown: Error | undefined
+
+    const restoring = Parcel.restore({ id: 1 })
+    try {
+      await restoring
+    } catch (error) {
+      thrown = error
+    }
+
+    expect(thrown!.message).to.equal(
+      "Tried to restore rows from parcels, which doesn't use soft deletes"
+    )
+  })
+
+  it('should declare the deleted_at column', function() {
+    expect(User.getColumnDefinitions()).to.deep.equal({
+      deleted_at: { type: 'timestamp' }
+    })
+  })
+})
@@ -0,0 +1,145 @@
+import { expect } from 'chai'
+import { Postgres } from '../src/db/postgres'
+import { Model } from '../src/Model'
+import { createFakePool } from './utils'
+
+describe('Streaming reads', function() {
+  let queries: string[]
+  let db: Postgres
+
+  class Parcel extends Model<any> {
+    static tableName = 'parcels'
+  }
+
+  beforeEach(() => {
+    queries = []
+    db = new Postgres()
+
+    const batches = [[{ id: 1 }, { id: 2 }], [{ id: 3 }]]
+    db.pool = createFakePool(queries, text =>
+      text.startsWith('FETCH') ? batches.shift() || [] : []
+    )
+    Parcel.db = db
+  })
+
+  describe('#cursor', function() {
+    it('should fetch batches until one comes back short and close the transaction', async function() {
+      const batches: any[][] = []
+      for await (const rows of db.cursor('SELECT * FROM parcels', 2)) {
+        batches.push(rows)
+      }
+
+      expect(batches).to.deep.equal([[{ id: 1 }, { id: 2 }], [{ id: 3 }]])
+      expect(queries[0]).to.equal('BEGIN')
+      expect(queries[1]).to.match(
+        /^DECLARE cursor_\d+ NO SCROLL CURSOR FOR SELECT \* FROM parcels \[\]$/
+      )
+      expect(queries.slice(2)).to.deep.equal([
+        queries[2],
+        queries[2],
+        'COMMIT',
+        'release'
+      ])
+      expect(queries[2]).to.match(/^FETCH 2 FROM cursor_\d+$/)
+    })
+
+    it('should close the cursor if the consumer stops early', async function() {
+      for await (const rows of db.cursor('SELECT * FROM parcels', 2)) {
+        expect(rows).to.have.length(2)
+        break
+      }
+
+      expect(queries.slice(-2)).to.deep.equal(['COMMIT', 'release'])
+      expect(queries.filter(query => query.startsWith('FETCH'))).to.have.length(
+        1
+      )
+    })
+
+    it('should destroy the client if the transaction fails to commit', async function() {
+      const commitError = new Error('Connection terminated')
+      const client: any = await db.pool.connect()
+      const query = client.query
+      let released: Error | undefined
+      let thrown: Error | undefined
+
+      client.query = async (text: string) => {
+        if (text === 'COMMIT') throw commitError
+        return query(text)
+      }
+      client.release = (releaseError?: Error) => {
+        released = releaseError
+      }
+
+      try {
+        for await (const _ of db.cursor('SELECT * FROM parcels', 2)) {
+          // consume every batch
+        }
+      } catch (error) {
+        thrown = error
+      }
+
+      expect(thrown).to.equal(commitError)
+      expect(released).to.equal(commitError)
+    })
+
+    it('should use the current transaction and close the cursor on it', async function() {
+      await db.transaction(async () => {
+        for await (const _ of db.cursor('SELECT * FROM parcels', 2)) {
+          // consume every batch
+        }
+      })
+
+      expect(queries[0]).to.equal('BEGIN')
+      expect(queries[queries.length - 3]).to.match(/^CLOSE cursor_\d+$/)
+      expect(queries.slice(-2)).to.deep.equal(['COMMIT', 'release'])
+      expect(queries.filter(query => query === 'BEGIN')).to.have.length(1)
+    })
+  })
+
+  describe('Model.stream', function() {
+    it('should stream every row', async function() {
+      const rows: any[] = []
+      for await (const row of Parcel.stream<any>(
+        { owner: '0x' },
+        { id: 'ASC' },
+        {
+          batchSize: 2
+        }
+      )) {
+        rows.push(row)
+      }
+
+      expect(rows).to.deep.equal([{ id: 1 }, { id: 2 }, { id: 3 }])
+      expect(queries[1]).to.match(
+        /FOR SELECT \* FROM parcels WHERE "owner" = \$1 ORDER BY "id" ASC \["0x"\]$/
+      )
+    })
+  })
+
+  describe('Model.findEach', function() {
+    it('should call the callback for each row and return the amount processed', async function() {
+      const ids: number[] = []
+      const count = await Parcel.findEach({}, { batchSize: 2 }, async row => {
+        ids.push(row.id)
+      })
+
+      expect(count).to.equal(3)
+      expect(ids).to.deep.equal([1, 2, 3])
+    })
+
+    it('should close the cursor and rethrow if the callback throws', async function() {
+      let thrown: Error | undefined
+
+      try {
+        await Parcel.findEach({}, { batchSize: 2 }, () => {
+          throw new Error('Failed')
+        })
+      } catch (error) {
+        thrown = error
+      }
+
+      expect(thrown!.message).to.equal('Failed')
+      expect(queries.slice(-2)).to.deep.equal(['COMMIT', 'release'])
+    })
+  })
+})
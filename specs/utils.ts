@@ -0,0 +1,77 @@
+import { SQLStatement } from '../src/sql'
+
+/**
+ * Stand-in for a pg Pool. It records every query made on it (prefixed with `pool:`) or on its clients.
+ * Statements are recorded with their values
+ * @param queries - Where to record the queries
+ * @param [rows]  - Rows returned by every query, or a function returning them for each query text
+ */
+export function createFakePool(
+  queries: string[],
+  rows: any[] | ((text: string) => any[]) = []
+): any {
+  const query = (prefix: string) => async (
+    queryString: string | SQLStatement
+  ) => {
+    const text =
+      queryString instanceof SQLStatement
+        ? `${queryString.text} ${JSON.stringify(queryString.values)}`
+        : queryString
+    queries.push(`${prefix}${text}`)
+    return { rows: typeof rows === 'function' ? rows(text) : rows }
+  }
+
+  const client = {
+    query: query(''),
+    release: () => queries.push('release')
+  }
+
+  return {
+    connect: async () => client,
+    query: query('pool: ')
+  }
+}
+
+/**
+ * Stand-in for an express Request, for GET /api/parcels/1 from 10.0.0.1
+ * @param [overrides] - Properties to set on the request, like its headers
+ */
+export function createFakeRequest(overrides: object = {}): any {
+  return {
+    method: 'GET',
+    path: '/api/parcels/1',
+    originalUrl: '/api/parcels/1',
+    route: { path: '/api/parcels/:id' },
+    params: { id: '1' },
+    query: {},
+    headers: {},
+    ip: '10.0.0.1',
+    ...overrides
+  }
+}
+
+/**
+ * Stand-in for an express Response. It keeps the status code, headers and body sent, and whether it ended
+ */
+export function createFakeResponse(): any {
+  return {
+    statusCode: 200,
+    headers: {},
+    setHeader(name: string, value: string) {
+      this.headers[name] = value
+      return this
+    },
+    status(code: number) {
+      this.statusCode = code
+      return this
+    },
+    json(body: any) {
+      this.body = body
+      return this
+    },
+    end() {
+      this.ended = true
+      return this
+    }
+  }
+}
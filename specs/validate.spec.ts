@@ -0,0 +1,81 @@
+import { expect } from 'chai'
+import { Model } from '../src/Model'
+import { validate, ValidationError } from '../src/validation'
+
+describe('validate', function() {
+  const rules = {
+    owner: { required: true, pattern: /^0x[a-f0-9]+$/ },
+    name: { type: 'string' as 'string', length: { min: 2, max: 5 } },
+    price: { type: 'number' as 'number', min: 0, max: 100 },
+    status: { enum: ['open', 'sold'] },
+    x: {
+      validate: async (value: number) =>
+        value % 2 === 0 ? undefined : 'x should be even'
+    }
+  }
+
+  it('should return an empty list for a valid row', async function() {
+    const errors = await validate(
+      { owner: '0x1', name: 'Ana', price: 0, status: 'open', x: 2 },
+      rules
+    )
+    expect(errors).to.deep.equal([])
+  })
+
+  it('should list each failing field', async function() {
+    const errors = await validate(
+      { name: 'A', price: 200, status: 'closed', x: 1 },
+      rules
+    )
+
+    expect(errors).to.deep.equal([
+      { field: 'owner', rule: 'required', message: 'owner is required' },
+      {
+        field: 'name',
+        rule: 'length',
+        message: 'name should have at least 2 characters'
+      },
+      { field: 'price', rule: 'max', message: 'price should be at most 100' },
+      {
+        field: 'status',
+        rule: 'enum',
+        message: 'status should be one of open, sold'
+      },
+      { field: 'x', rule: 'validate', message: 'x should be even' }
+    ])
+  })
+
+  it('should check types and patterns', async function() {
+    const errors = await validate({ owner: 'nope', price: '10' }, rules)
+
+    expect(errors.map(error => error.rule)).to.deep.equal(['pattern', 'type'])
+  })
+
+  it('should only check the present fields if partial is true', async function() {
+    const errors = await validate({ price: 10 }, rules, true)
+    expect(errors).to.deep.equal([])
+  })
+
+  describe('Model.validate', function() {
+    class Parcel extends Model<any> {
+      static validations = rules
+    }
+
+    it('should throw a ValidationError with a 400 status code', async function() {
+      let thrown: ValidationError | undefined
+
+      try {
+        await Parcel.validate({ price: -1 })
+      } catch (error) {
+        thrown = error
+      }
+
+      expect(thrown).to.be.instanceOf(ValidationError)
+      expect(thrown!.statusCode).to.equal(400)
+      expect(thrown!.data.errors.map(error => error.field)).to.deep.equal([
+        'owner',
+        'price'
+      ])
+    })
+  })
+})
@@ -0,0 +1,105 @@
+import { expect } from 'chai'
+import { Postgres } from '../src/db/postgres'
+import { StaleRecordError } from '../src/errors'
+import { Model } from '../src/Model'
+import { handleRequest } from '../src/server'
+import { createFakePool, createFakeResponse } from './utils'
+
+describe('Optimistic locking', function() {
+  let queries: string[]
+  let updatedRows: any[]
+
+  class Parcel extends Model<any> {
+    static tableName = 'parcels'
+    static withTimestamps = false
+    static versioned = true
+  }
+
+  beforeEach(() => {
+    queries = []
+    updatedRows = [{ id: 1 }]
+
+    const db = new Postgres()
+    const pool = createFakePool(queries, text =>
+      text.startsWith('UPDATE') ? updatedRows : []
+    )
+    const query = pool.query
+    pool.query = async (text: any) => ({
+      ...(await query(text)),
+      rowCount: updatedRows.length
+    })
+    db.pool = pool
+    Parcel.db = db
+  })
+
+  it('should update the row only if it has the same version and increment it', async function() {
+    const parcel = new Parcel({ id: 1, owner: '0x', version: 3 })
+    await parcel.update()
+
+    expect(queries).to.deep.equal([
+      'pool: UPDATE parcels SET "id" = $1, "owner" = $2, "version" = $3 WHERE (("id" = $4) AND ("version" = $5)) [1,"0x",4,1,3]'
+    ])
+    expect(parcel.get('version')).to.equal(4)
+  })
+
+  it('should increment the version on every row updated by Model.update', async function() {
+    await Parcel.update({ owner: '0x' }, { x: 1 })
+
+    expect(queries).to.deep.equal([
+      'pool: UPDATE parcels SET "owner" = $1, "version" = parcels."version" + 1 WHERE "x" = $2 ["0x",1]'
+    ])
+  })
+
+  it('should increment the version on every row updated by Model.updateMany', async function() {
+    await Parcel.updateMany([{ id: 1, owner: '0x', version: 1 }])
+
+    expect(queries[2]).to.equal(
+      'UPDATE parcels SET "owner" = v."owner", "version" = parcels."version" + 1 FROM (VALUES ($1, $2, $3)) AS v("id","owner","version") WHERE parcels."id" = v."id" [1,"0x",1]'
+    )
+  })
+
+  it('should increment the version of a conflicting row on upsert', async function() {
+    await Parcel.upsert({ id: 1, owner: '0x' })
+
+    expect(queries).to.deep.equal([
+      'pool: INSERT INTO parcels ("id","owner","version") VALUES ($1, $2, $3) ON CONFLICT (id) DO UPDATE SET "id" = $4, "owner" = $5, "version" = parcels."version" + 1 RETURNING id [1,"0x",1,1,"0x"]'
+    ])
+  })
+
+  it('should increment the version of the conflicting rows on createMany', async function() {
+    await Parcel.createMany([{ x: 1, y: 2, owner: '0x' }], {
+      onConflict: { target: ['x', 'y'] }
+    })
+
+    expect(queries[1]).to.equal(
+      'INSERT INTO parcels ("x","y","owner","version") VALUES ($1, $2, $3, $4) ON CONFLICT (x,y) DO UPDATE SET "owner" = EXCLUDED."owner", "version" = parcels."version" + 1 RETURNING id [1,2,"0x",1]'
+    )
+  })
+
+  it('should throw a StaleRecordError with a 409 statusCode if no row matched', async function() {
+    updatedRows = []
+    const parcel = new Parcel({ id: 1, owner: '0x', version: 3 })
+    let thrown: StaleRecordError | undefined
+
+    try {
+      await parcel.update()
+    } catch (error) {
+      thrown = error
+    }
+
+    expect(thrown).to.be.instanceOf(StaleRecordError)
+    expect(thrown!.statusCode).to.equal(409)
+    expect(parcel.get('version')).to.equal(3)
+  })
+
+  it('should be sent as a conflict by handleRequest', async function() {
+    updatedRows = []
+    const parcel = new Parcel({ id: 1, owner: '0x', version: 3 })
+    const res = createFakeResponse()
+
+    await handleRequest(() => parcel.update())({} as any, res, () => undefined)
+
+    expect(res.statusCode).to.equal(409)
+    expect(res.body.ok).to.equal(false)
+  })
+})
@@ -1,6 +1,62 @@
+import { Readable } from 'stream'
+import { CacheOptions, defaultCacheStore } from './cache'
 import { clients } from './db'
-import { Postgres } from './db/postgres'
-import { PrimaryKey, QueryPart, OnConflict } from './db/types'
+import { Postgres, Transaction } from './db/postgres'
+import { QueryBuilder } from './db/queryBuilder'
+import {
+  getIndexDefinitions,
+  getSchemaDrift,
+  toCreateIndexSQL,
+  toCreateTableSQL
+} from './db/schema'
+import {
+  ColumnDefinitions,
+  Conditions,
+  DeletedScope,
+  FindOptions,
+  IndexDefinition,
+  OrderClause,
+  PrimaryKey,
+  QueryArgument,
+  QueryPart,
+  OnConflict,
+  SchemaDrift,
+  StreamOptions
+} from './db/types'
+import { StaleRecordError } from './errors'
+import {
+  addHook,
+  AfterWriteHookName,
+  getHooks,
+  Hook,
+  HookArgs,
+  HookName,
+  HookPayloads
+} from './hooks'
+import {
+  CursorPage,
+  CursorPaginateOptions,
+  decodeCursor,
+  DEFAULT_PER_PAGE,
+  encodeCursor,
+  Page,
+  PaginateOptions,
+  toKeysetConditions
+} from './pagination'
+import { groupIncludes, RelationDefinition, Relations } from './relations'
+import { raw, SQLStatement } from './sql'
+import {
+  assertValid,
+  FieldError,
+  validate,
+  ValidationError,
+  ValidationRules
+} from './validation'
+
+/**
+ * Static side of a Model subclass. Subclasses aren't assignable to `typeof Model` because its constructor is generic
+ */
+type ModelClass = Pick<typeof Model, keyof typeof Model>
 
 /**
  * Basic Model class for accesing inner attributes easily
@@ -10,6 +66,60 @@ export class Model<T> {
   public static primaryKey: string = 'id'
   public static withTimestamps: boolean = true
 
+  /**
+   * Declarative schema of the table. Used to generate its DDL and to check it against the database. See {@link Model.syncTable}
+   * @example
+   * static columns = {
+   *   id: { type: 'serial' },
+   *   owner: { type: 'varchar(42)', nullable: false, index: true },
+   *   price: { type: 'numeric', default: 0 }
+   * }
+   */
+  public static columns: ColumnDefinitions = {}
+  /**
+   * Indexes spanning one or more columns. Single column indexes can also be declared with `index: true` on {@link Model.columns}
+   */
+  public static indexes: IndexDefinition[] = []
+  /**
+   * Rules checked before every write. See {@link Model.validate}
+   * @example
+   * static validations = {
+   *   owner: { required: true, pattern: /^0x[a-fA-F0-9]{40}$/ },
+   *   price: { type: 'number', min: 0 }
+   * }
+   */
+  public static validations: ValidationRules = {}
+  /**
+   * Associations with other Models, which can be loaded using the `include` option of {@link Model.find} and {@link Model.findOne}
+   * @example
+   * static relations = {
+   *   owner: belongsTo(() => User, 'owner_id'),
+   *   parcels: hasMany(() => Parcel, 'estate_id')
+   * }
+   */
+  public static relations: Relations = {}
+  /**
+   * If true, {@link Model.delete} sets `deleted_at` instead of removing the rows and reads skip the deleted rows.
+   * Use {@link Model.withDeleted} or {@link Model.onlyDeleted} to read them and {@link Model.restore} or {@link Model.forceDelete} to undo or finish the deletion
+   */
+  public static softDelete: boolean = false
+  /**
+   * Which rows reads return if softDelete is on. Changed by {@link Model.withDeleted} and {@link Model.onlyDeleted}
+   */
+  public static deletedScope: DeletedScope = 'exclude'
+  /**
+   * If true, rows hold a `version` column used for optimistic locking. Updating an instance only succeeds if the row still has the version it was read with,
+   * otherwise it throws a {@link StaleRecordError}. Every update increments it, including upserts, bulk updates and soft deletes
+   */
+  public static versioned: boolean = false
+  /**
+   * If set, {@link Model.find} and {@link Model.findOne} results are cached for `ttlMillis` on the `store` (a shared in-memory LRU by default).
+   * Every write made through the Model invalidates them. Reads inside a transaction skip the cache
+   * @example
+   * static cache = { ttlMillis: 60 * 1000 }
+   */
+  public static cache: CacheOptions | null = null
+
   /**
    * DB client to use. We use Postgres by default. Can be changed via Model.useDB('db client')
    */
@@ -19,6 +129,11 @@ export class Model<T> {
   public tableName: string
   public primaryKey: keyof T
 
+  /**
+   * Copy of the attributes as they were last read from or written to the database. See {@link Model#changed}
+   */
+  private snapshot: Partial<T> | undefined
+
   /**
    * Creates a new instance storing the attributes for later use
    * @param attributes
@@ -42,18 +157,87 @@ export class Model<T> {
     this.db = clients[clientName]
   }
 
+  /**
+   * Run the callback inside a transaction of the current DB client. Every Model call made while the callback runs picks up the transaction. See {@link postgres#transaction}
+   * @param callback - Receives the transaction
+   */
+  static transaction<U>(
+    callback: (transaction: Transaction) => Promise<U>
+  ): Promise<U> {
+    return this.db.transaction(callback)
+  }
+
+  /**
+   * Run the callback reading from the primary instead of the replicas. See {@link postgres#usePrimary}
+   * @example
+   * const parcel = await Parcel.usePrimary(() => Parcel.findOne(id))
+   * @param callback
+   */
+  static usePrimary<U>(callback: () => Promise<U>): Promise<U> {
+    return this.db.usePrimary(callback)
+  }
+
+  /**
+   * Returns a copy of the Model bound to the supplied transaction. Useful when the call is made outside the async context of the transaction callback
+   * @example
+   * await User.transacting(tx).update({ name: 'New Name' }, { id: 22 })
+   * @param transaction
+   */
+  static transacting<M extends ModelClass>(
+    this: M,
+    transaction: Transaction
+  ): M {
+    return extendModel(this, { db: transaction })
+  }
+
+  /**
+   * Returns a copy of the Model whose reads include the soft deleted rows
+   * @example
+   * await User.withDeleted().find({ email })
+   */
+  static withDeleted<M extends ModelClass>(this: M): M {
+    return extendModel(this, { deletedScope: 'include' })
+  }
+
+  /**
+   * Returns a copy of the Model whose reads only return the soft deleted rows
+   * @example
+   * await User.onlyDeleted().count({})
+   */
+  static onlyDeleted<M extends ModelClass>(this: M): M {
+    return extendModel(this, { deletedScope: 'only' })
+  }
+
   /**
    * Return the rows that match the conditions
-   * @param [conditions] - It returns all rows if empty
-   * @param [orderBy]    - Object describing the column ordering
-   * @param [extra]      - String appended at the end of the query
+   * @param [conditions]      - It returns all rows if empty
+   * @param [orderBy]         - Object describing the column ordering
+   * @param [extraOrOptions]  - String appended at the end of the query or an object with options
+   * @param [options.extra]   - String appended at the end of the query
+   * @param [options.include] - Relations to load on each row, see {@link Model.loadRelations}
    */
-  static find<U extends QueryPart = any>(
-    conditions?: Partial<U>,
+  static async find<U extends QueryPart = any>(
+    conditions?: Conditions<U>,
     orderBy?: Partial<U>,
-    extra?: string
+    extraOrOptions?: string | FindOptions
   ): Promise<U[]> {
-    return this.db.select(this.tableName, conditions, orderBy, extra)
+    const options: FindOptions =
+      typeof extraOrOptions === 'string'
+        ? { extra: extraOrOptions }
+        : extraOrOptions || {}
+
+    return this.withCache(['find', conditions, orderBy, options], async () => {
+      const rows = await this.withQueryContext(() =>
+        this.db.select(
+          this.tableName,
+          this.toScopedConditions(conditions),
+          orderBy,
+          options.extra
+        )
+      )
+      await this.processFound(rows, options)
+      return rows
+    })
   }
 
   /**
@@ -62,22 +246,214 @@ export class Model<T> {
    */
   static findOne<U = any, P extends QueryPart = any>(
     primaryKey: PrimaryKey,
-    orderBy?: Partial<P>
+    orderBy?: Partial<P>,
+    options?: FindOptions
   ): Promise<U | undefined>
   static findOne<U extends QueryPart = any, P extends QueryPart = any>(
-    conditions: Partial<U>,
-    orderBy?: Partial<P>
+    conditions: Conditions<U>,
+    orderBy?: Partial<P>,
+    options?: FindOptions
   ): Promise<U | undefined>
-  static findOne<U extends QueryPart = any, P extends QueryPart = any>(
-    primaryKeyOrCond: PrimaryKey | Partial<U>,
-    orderBy?: Partial<P>
+  static async findOne<U extends QueryPart = any, P extends QueryPart = any>(
+    primaryKeyOrCond: PrimaryKey | Conditions<U>,
+    orderBy?: Partial<P>,
+    options: FindOptions = {}
   ): Promise<U | undefined> {
     const conditions =
       typeof primaryKeyOrCond === 'object'
         ? primaryKeyOrCond
         : { [this.primaryKey]: primaryKeyOrCond }
 
-    return this.db.selectOne(this.tableName, conditions, orderBy)
+    return this.withCache(
+      ['findOne', conditions, orderBy, options],
+      async () => {
+        const row = await this.withQueryContext(() =>
+          this.db.selectOne(
+            this.tableName,
+            this.toScopedConditions(conditions),
+            orderBy
+          )
+        )
+        if (!row) return row
+
+        const rows = [row]
+        await this.processFound(rows, options)
+        return rows[0]
+      }
+    )
+  }
+
+  /**
+   * Load the related rows for each row, attaching them on a property named after the relation.
+   * It makes one query per relation, regardless of the amount of rows. Nested relations can be loaded using dots.
+   * @example
+   * await Parcel.loadRelations(parcels, ['owner', 'estate', 'estate.owner', 'tags'])
+   * @param rows
+   * @param include - Names of the relations, as declared on {@link Model.relations}
+   * @return The same rows
+   */
+  static async loadRelations<U extends QueryPart = any>(
+    rows: U[],
+    include: string[]
+  ): Promise<U[]> {
+    if (rows.length === 0) return rows
+
+    for (const [name, nested] of groupIncludes(include)) {
+      const relation = this.relations[name]
+      if (!relation) {
+        throw new Error(`Unknown relation ${name} for ${this.tableName}`)
+      }
+
+      await this.loadRelation(rows, name, relation, nested)
+    }
+
+    return rows
+  }
+
+  /**
+   * Return a page of the rows that match the conditions, along with the total amount of rows and pages.
+   * The primary key is always added as the last ordering column, so rows don't move between pages
+   * @example
+   * await Parcel.paginate({ owner }, { page: 2, perPage: 50, orderBy: { x: 'ASC' } })
+   * @param [conditions]        - It paginates all rows if empty
+   * @param [options]
+   * @param [options.page=1]
+   * @param [options.perPage=20]
+   * @param [options.orderBy]   - Object describing the column ordering
+   * @param [options.include]   - Relations to load on each row
+   */
+  static async paginate<U extends QueryPart = any>(
+    conditions?: Conditions<U>,
+    options: PaginateOptions = {}
+  ): Promise<Page<U>> {
+    const { page = 1, perPage = DEFAULT_PER_PAGE, orderBy, include } = options
+    assertPositiveInteger('page', page)
+    assertPositiveInteger('perPage', perPage)
+
+    const [rows, total] = await Promise.all([
+      this.find<U>(conditions, this.toStableOrder(orderBy) as Partial<U>, {
+        extra: `LIMIT ${perPage} OFFSET ${(page - 1) * perPage}`,
+        include
+      }),
+      this.count<U>(conditions || {})
+    ])
+
+    return {
+      rows,
+      total,
+      page,
+      pages: Math.ceil(total / perPage),
+      nextCursor: null
+    }
+  }
+
+  /**
+   * Return the rows that come after the cursor, using keyset pagination. It doesn't count the rows, so it's suited for large tables.
+   * The primary key is always added as the last ordering column, so the order is stable
+   * @example
+   * const first = await Parcel.paginateByCursor({ owner }, { orderBy: { price: 'DESC' } })
+   * const second = await Parcel.paginateByCursor({ owner }, { orderBy: { price: 'DESC' }, cursor: first.nextCursor })
+   * @param [conditions]        - It paginates all rows if empty
+   * @param [options]
+   * @param [options.cursor]    - nextCursor returned by the previous page. Starts from the beginning if empty
+   * @param [options.perPage=20]
+   * @param [options.orderBy]   - Object describing the column ordering. Columns should not be nullable nor timestamps, see {@link pagination#encodeCursor}
+   * @param [options.include]   - Relations to load on each row
+   * @return The rows and the cursor for the next page, which is null on the last one
+   */
+  static async paginateByCursor<U extends QueryPart = any>(
+    conditions?: Conditions<U>,
+    options: CursorPaginateOptions = {}
+  ): Promise<CursorPage<U>> {
+    const { cursor, perPage = DEFAULT_PER_PAGE, include } = options
+    assertPositiveInteger('perPage', perPage)
+
+    const orderBy = this.toStableOrder(options.orderBy)
+    const columns = Object.keys(orderBy)
+
+    let where = conditions
+    if (cursor) {
+      const keyset = toKeysetConditions(orderBy, decodeCursor(cursor, columns))
+      where = conditions ? { $and: [conditions, keyset] } : keyset
+    }
+
+    const rows = await this.find<U>(where, orderBy as Partial<U>, {
+      extra: `LIMIT ${perPage + 1}`,
+      include
+    })
+    const hasMore = rows.length > perPage
+    if (hasMore) {
+      rows.pop()
+    }
+
+    return {
+      rows,
+      nextCursor: hasMore ? encodeCursor(rows[rows.length - 1], columns) : null
+    }
+  }
+
+  /**
+   * The ordering with the primary key added as the last column, unless it's already on it
+   * @param [orderBy]
+   */
+  protected static toStableOrder(orderBy?: OrderClause): OrderClause {
+    const order: OrderClause = { ...orderBy }
+    if (!order[this.primaryKey]) {
+      order[this.primaryKey] = 'ASC'
+    }
+    return order
+  }
+
+  /**
+   * Stream the rows that match the conditions, reading them in batches with a server-side cursor so large tables don't need to fit in memory.
+   * The stream applies backpressure and can be consumed with `for await`. Destroying it, or breaking out of the loop, closes the cursor
+   * @example
+   * for await (const parcel of Parcel.stream({ owner }, { id: 'ASC' })) { ... }
+   * @param [conditions]              - It streams all rows if empty
+   * @param [orderBy]                 - Object describing the column ordering
+   * @param [options]
+   * @param [options.batchSize=1000]  - Rows fetched on each round trip
+   * @param [options.include]         - Relations to load on each row, see {@link Model.loadRelations}
+   * @return Readable stream of rows, on object mode
+   */
+  static stream<U extends QueryPart = any>(
+    conditions?: Conditions<U>,
+    orderBy?: Partial<U>,
+    options: StreamOptions = {}
+  ): Readable {
+    return Readable.from(this.iterate(conditions, orderBy, options))
+  }
+
+  /**
+   * Call the callback for each row that matches the conditions, reading them in batches with a server-side cursor.
+   * The next row is read once the callback resolves. If it throws, the cursor is closed and the error is rethrown
+   * @example
+   * await Parcel.findEach({ owner }, { batchSize: 500 }, parcel => reindex(parcel))
+   * @param conditions
+   * @param options
+   * @param [options.batchSize=1000]  - Rows fetched on each round trip
+   * @param [options.orderBy]         - Object describing the column ordering
+   * @param [options.include]         - Relations to load on each row, see {@link Model.loadRelations}
+   * @param callback
+   * @return Amount of rows processed
+   */
+  static async findEach<U extends QueryPart = any>(
+    conditions: Conditions<U> | undefined,
+    options: StreamOptions & { orderBy?: Partial<U> },
+    callback: (row: U) => any
+  ): Promise<number> {
+    let count = 0
+
+    for await (const row of this.iterate(
+      conditions,
+      options.orderBy,
+      options
+    )) {
+      await callback(row)
+      count++
+    }
+
+    return count
   }
 
   /**
@@ -86,21 +462,49 @@ export class Model<T> {
    * @param [extra]      - String appended at the end of the query
    */
   static async count<U extends QueryPart = any>(
-    conditions: Partial<U>,
+    conditions: Conditions<U>,
     extra?: string
   ): Promise<number> {
-    const result = await this.db.count(this.tableName, conditions, extra)
+    const result = await this.withQueryContext(() =>
+      this.db.count(
+        this.tableName,
+        this.toScopedConditions(conditions) || {},
+        extra
+      )
+    )
     return result.length ? parseInt(result[0].count, 10) : 0
   }
 
+  /**
+   * Start a chainable query on the Model table. See {@link QueryBuilder}
+   * @example
+   * Parcel.query().where({ price: { $gte: 10 } }).orderBy('price').limit(10).run()
+   */
+  static query<U = any>(): QueryBuilder<U>
   /**
    * Forward queries to the db client
    * @param  queryString
    * @param  [values]
    * @return Array containing the matched rows
    */
-  static async query<U = any>(queryString, values?: any[]): Promise<U[]> {
-    return this.db.query(queryString, values)
+  static query<U = any>(
+    queryString: string | QueryArgument,
+    values?: any[]
+  ): Promise<U[]>
+  static query<U = any>(
+    queryString?: string | QueryArgument,
+    values?: any[]
+  ): QueryBuilder<U> | Promise<U[]> {
+    if (queryString === undefined) {
+      const builder = new QueryBuilder<U>(this.db, this.tableName)
+      const scope = this.toScopedConditions(
+        undefined,
+        `${this.tableName}.deleted_at`
+      )
+      return scope ? builder.where(scope) : builder
+    }
+
+    return this.withQueryContext(() => this.db.query(queryString, values))
   }
 
   /**
@@ -131,23 +535,394 @@ export class Model<T> {
    * @param changes    - An object describing the updates.
    * @param conditions - An object describing the WHERE clause.
    */
-  static update<U extends QueryPart = any, P extends QueryPart = any>(
+  static async update<U extends QueryPart = any, P extends QueryPart = any>(
     changes: Partial<U>,
-    conditions: Partial<P>
+    conditions: Conditions<P>
   ) {
-    changes = this.withTimestamps
-      ? { ...changes, updated_at: changes.updated_at || new Date() }
-      : changes
+    return this.withHooks(
+      'beforeUpdate',
+      'afterUpdate',
+      { changes, conditions },
+      async payload => {
+        await this.validate(payload.changes, true)
+
+        const changes: QueryPart = { ...payload.changes }
+        if (this.withTimestamps) {
+          changes.updated_at = changes.updated_at || new Date()
+        }
+        if (this.versioned && changes.version === undefined) {
+          changes.version = this.getVersionIncrement()
+        }
+
+        return this.db.update(this.tableName, changes, payload.conditions)
+      }
+    )
+  }
+
+  /**
+   * Delete the row on the Model.tableName table. If softDelete is on, it sets `deleted_at` on the rows that aren't deleted yet instead
+   * @param conditions - An object describing the WHERE clause.
+   */
+  static delete<U extends QueryPart = any>(conditions: Conditions<U>) {
+    if (!this.softDelete) {
+      return this.forceDelete(conditions)
+    }
 
-    return this.db.update(this.tableName, changes, conditions)
+    return this.withHooks(
+      'beforeDelete',
+      'afterDelete',
+      { conditions },
+      payload => {
+        const now = new Date()
+        const changes: QueryPart = { deleted_at: now }
+        if (this.withTimestamps) {
+          changes.updated_at = now
+        }
+        if (this.versioned) {
+          changes.version = this.getVersionIncrement()
+        }
+
+        return this.db.update(this.tableName, changes, {
+          $and: [payload.conditions, { deleted_at: null }]
+        })
+      }
+    )
   }
 
   /**
-   * Delete the row on the Model.tableName table.
+   * Remove the rows for good, even if softDelete is on
    * @param conditions - An object describing the WHERE clause.
    */
-  static delete<U extends QueryPart = any>(conditions: Partial<U>) {
-    return this.db.delete(this.tableName, conditions)
+  static forceDelete<U extends QueryPart = any>(conditions: Conditions<U>) {
+    return this.withHooks(
+      'beforeDelete',
+      'afterDelete',
+      { conditions },
+      payload => this.db.delete(this.tableName, payload.conditions)
+    )
+  }
+
+  /**
+   * Undo the soft deletion of the rows, clearing their `deleted_at`. It goes through {@link Model.update}, so the update hooks run
+   * @param conditions - An object describing the WHERE clause.
+   */
+  static async restore<U extends QueryPart = any>(conditions: Conditions<U>) {
+    if (!this.softDelete) {
+      throw new Error(
+        `Tried to restore rows from ${this.tableName}, which doesn't use soft deletes`
+      )
+    }
+
+    const deleted: Conditions = {
+      $and: [conditions, { deleted_at: { $ne: null } }]
+    }
+    return this.update({ deleted_at: null }, deleted)
+  }
+
+  /**
+   * Insert multiple rows using multi-row INSERT statements, split in chunks. Everything runs inside a transaction.
+   * Each row is validated and goes through the create hooks, and gets its timestamps if withTimestamps is on
+   * @example
+   * await Parcel.createMany(parcels, { onConflict: { target: ['x', 'y'] }, chunkSize: 500 })
+   * @param rows
+   * @param [options]
+   * @param [options.onConflict]      - Targets for the ON CONFLICT clause and changes to apply. Without changes, conflicting rows are updated with their new values. Without targets, they're skipped
+   * @param [options.chunkSize=1000]  - Max rows per statement
+   * @return Primary keys of the inserted (or updated) rows
+   */
+  static async createMany<U extends QueryPart = any>(
+    rows: U[],
+    options: { onConflict?: OnConflict<U>; chunkSize?: number } = {}
+  ): Promise<PrimaryKey[]> {
+    if (rows.length === 0) return []
+
+    const { chunkSize = DEFAULT_CHUNK_SIZE } = options
+    const onConflict = options.onConflict && { ...options.onConflict }
+
+    const result = await this.db.transaction(async db => {
+      const now = new Date()
+      const payloads = rows.map(row => ({ row: { ...row } }))
+
+      for (const payload of payloads) {
+        await this.runHooks('beforeCreate', payload, db)
+      }
+      await this.validateMany(payloads.map(payload => payload.row))
+
+      if (this.versioned) {
+        for (const { row } of payloads) {
+          Object.assign(row, { version: row.version || 1 })
+        }
+      }
+      if (this.withTimestamps) {
+        for (const { row } of payloads) {
+          Object.assign(row, {
+            created_at: row.created_at || now,
+            updated_at: row.updated_at || now
+          })
+        }
+        if (onConflict && onConflict.changes) {
+          onConflict.changes = { updated_at: now, ...onConflict.changes }
+        }
+      }
+
+      const keys: PrimaryKey[] = []
+      const rowKeys = new Map<object, PrimaryKey>()
+      const valueCount = countColumns(payloads.map(payload => payload.row))
+      for (const chunk of toChunks(payloads, chunkSize, valueCount)) {
+        const result = await this.withQueryContext(() =>
+          this.db.insertMany(
+            this.tableName,
+            chunk.map(payload => payload.row),
+            this.primaryKey,
+            onConflict &&
+              this.toVersionedOnConflict(
+                onConflict,
+                chunk.map(payload => payload.row)
+              )
+          )
+        )
+        const inserted: any[] = result.rows
+
+        // Rows are returned in order unless some were skipped by the ON CONFLICT clause
+        if (inserted.length === chunk.length) {
+          chunk.forEach(({ row }, index) => {
+            const key = inserted[index][this.primaryKey]
+            Object.assign(row, { [this.primaryKey]: key })
+            rowKeys.set(row, key)
+          })
+        }
+        keys.push(...inserted.map(row => row[this.primaryKey]))
+      }
+
+      // Rows skipped by the ON CONFLICT clause can't be told apart, so their hooks get an undefined result
+      for (const payload of payloads) {
+        await this.runHooks(
+          'afterCreate',
+          { ...payload, result: rowKeys.get(payload.row) },
+          db
+        )
+      }
+
+      return keys
+    })
+    await this.invalidateCache()
+
+    return result
+  }
+
+  /**
+   * Update multiple rows, each one with its own values, using UPDATE ... FROM (VALUES ...) statements split in chunks. Everything runs inside a transaction.
+   * Every row should have the same columns, including the key. Each row is validated and goes through the update hooks.
+   * The `conditions` of the hook payloads match each row by its key: beforeUpdate hooks can change the key, but not add other conditions.
+   * Statements don't tell which rows they updated, so the `result` of afterUpdate is the amount of rows updated by the whole call
+   * @example
+   * await Parcel.updateMany([{ id: 1, price: 10 }, { id: 2, price: 20 }])
+   * @param rows
+   * @param [options]
+   * @param [options.key=primaryKey]  - Column used to match each row
+   * @param [options.chunkSize=1000]  - Max rows per statement
+   * @return Amount of updated rows
+   */
+  static async updateMany<U extends QueryPart = any>(
+    rows: Partial<U>[],
+    options: { key?: string; chunkSize?: number } = {}
+  ): Promise<number> {
+    if (rows.length === 0) return 0
+
+    const { key = this.primaryKey, chunkSize = DEFAULT_CHUNK_SIZE } = options
+
+    const result = await this.db.transaction(async db => {
+      const now = new Date()
+      const payloads = rows.map(row => ({
+        changes: { ...row } as QueryPart,
+        conditions: { [key]: row[key] }
+      }))
+
+      for (const payload of payloads) {
+        await this.runHooks('beforeUpdate', payload, db)
+
+        const columns = Object.keys(payload.conditions)
+        if (columns.length !== 1 || columns[0] !== key) {
+          throw new Error(
+            `Tried to update many rows on ${this.tableName} with conditions other than "${key}". Each row can only be matched by its key`
+          )
+        }
+      }
+      await this.validateMany(
+        payloads.map(payload => payload.changes),
+        true
+      )
+
+      if (this.withTimestamps) {
+        for (const { changes } of payloads) {
+          changes.updated_at = changes.updated_at || now
+        }
+      }
+
+      let rowCount = 0
+      const valueCount = countColumns(payloads.map(payload => payload.changes))
+      for (const chunk of toChunks(payloads, chunkSize, valueCount)) {
+        const result = await this.withQueryContext(() =>
+          this.db.updateMany(
+            this.tableName,
+            chunk.map(payload => ({
+              ...payload.changes,
+              [key]: payload.conditions[key]
+            })),
+            key,
+            this.versioned ? ['version'] : []
+          )
+        )
+        rowCount += result.rowCount
+      }
+
+      for (const payload of payloads) {
+        await this.runHooks('afterUpdate', { ...payload, result: rowCount }, db)
+      }
+
+      return rowCount
+    })
+    await this.invalidateCache()
+
+    return result
+  }
+
+  /**
+   * Load rows using COPY FROM STDIN. It's the fastest way to import big amounts of rows, but it skips the validations and hooks.
+   * Timestamps are added if withTimestamps is on. See {@link postgres#copyFrom}
+   * @param rows    - Rows to load, as an array or an (async) iterable
+   * @param columns - Columns to copy from each row
+   * @return Amount of rows copied
+   */
+  static async copyFrom<U extends QueryPart = any>(
+    rows: Iterable<U> | AsyncIterable<U>,
+    columns: (keyof U & string)[]
+  ): Promise<number> {
+    const rowCount = await this.copyRows(rows, columns)
+    await this.invalidateCache()
+    return rowCount
+  }
+
+  /**
+   * Register a hook to run around the Model operations. Hooks can also be declared as static methods named after them on a Model subclass.
+   * Write hooks run inside a transaction, along with the write: throwing on a before hook aborts it and throwing on an after hook rolls it back.
+   * Available hooks: beforeCreate, afterCreate, beforeUpdate, afterUpdate, beforeDelete, afterDelete and afterFind
+   * @example
+   * Parcel.addHook('beforeCreate', ({ row }) => { row.owner = row.owner.toLowerCase() })
+   * @param name
+   * @param hook - Receives the operation payload along with the db client and the Model. See {@link HookArgs}
+   * @return A function that removes the hook
+   */
+  static addHook<N extends HookName>(name: N, hook: Hook<N>): () => void {
+    return addHook(this, name, hook)
+  }
+
+  /**
+   * Column definitions of the table, adding the timestamp columns if withTimestamps is on, `deleted_at` if softDelete is on and `version` if versioned is on, unless they're declared
+   */
+  static getColumnDefinitions(): ColumnDefinitions {
+    let columns = this.columns
+
+    if (this.withTimestamps) {
+      const timestamp = { type: 'timestamp', nullable: false }
+      columns = { created_at: timestamp, updated_at: timestamp, ...columns }
+    }
+    if (this.softDelete) {
+      columns = { deleted_at: { type: 'timestamp' }, ...columns }
+    }
+    if (this.versioned) {
+      columns = {
+        version: { type: 'integer', nullable: false, default: '1' },
+        ...columns
+      }
+    }
+
+    return columns
+  }
+
+  /**
+   * DDL statements for the table and its indexes, generated from {@link Model.columns} and {@link Model.indexes}
+   * @return An array containing the CREATE TABLE and each CREATE INDEX statement
+   */
+  static toCreateTableStatements(): string[] {
+    const columns = this.getColumnDefinitions()
+    const indexes = getIndexDefinitions(columns, this.indexes)
+
+    return [
+      toCreateTableSQL(this.tableName, columns, this.primaryKey),
+      ...indexes.map(index => toCreateIndexSQL(this.tableName, index))
+    ]
+  }
+
+  /**
+   * Compare the declared columns and indexes with the ones on the database
+   * @return Every difference found, empty if the table is up to date
+   */
+  static async getSchemaDrift(): Promise<SchemaDrift[]> {
+    const columns = this.getColumnDefinitions()
+    const [tableColumns, indexNames] = await Promise.all([
+      this.db.getTableColumns(this.tableName),
+      this.db.getTableIndexNames(this.tableName)
+    ])
+
+    return getSchemaDrift(
+      {
+        tableName: this.tableName,
+        columns,
+        indexes: getIndexDefinitions(columns, this.indexes),
+        primaryKey: this.primaryKey
+      },
+      tableColumns,
+      indexNames
+    )
+  }
+
+  /**
+   * Create the table and its indexes if they don't exist. Existing tables are not altered, use migrations for that
+   * @return The drift left between the declared columns and the database after the sync
+   */
+  static async syncTable(): Promise<SchemaDrift[]> {
+    for (const statement of this.toCreateTableStatements()) {
+      await this.db.query(statement)
+    }
+    return this.getSchemaDrift()
+  }
+
+  /**
+   * Check the row against {@link Model.validations}. It runs before every create, upsert and update
+   * @param row
+   * @param [partial=false] - Only check the columns present on the row
+   * @throws {ValidationError} Listing each failing column
+   */
+  static validate<U extends QueryPart = any>(
+    row: Partial<U>,
+    partial: boolean = false
+  ): Promise<void> {
+    return assertValid(row, this.validations, partial)
+  }
+
+  /**
+   * Validate a list of rows, prefixing each error field with the index of its row
+   */
+  protected static async validateMany(
+    rows: QueryPart[],
+    partial: boolean = false
+  ): Promise<void> {
+    const errors: FieldError[] = []
+
+    for (const [index, row] of rows.entries()) {
+      const rowErrors = await validate(row, this.validations, partial)
+      errors.push(
+        ...rowErrors.map(error => ({
+          ...error,
+          field: `${index}.${error.field}`
+        }))
+      )
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError(errors)
+    }
   }
 
   protected static async insert<U extends QueryPart = any>(
@@ -156,11 +931,315 @@ export class Model<T> {
   ): Promise<U> {
     row = Object.assign({}, row) // Shallow copy, we only modify top level props
 
+    const payload = { row }
+
+    await this.withHooks('beforeCreate', 'afterCreate', payload, payload =>
+      this.insertRow(payload.row, onConflict)
+    )
+
+    return payload.row
+  }
+
+  /**
+   * Run the write between its before and after hooks. If there're any hooks, everything runs inside a transaction
+   */
+  protected static async withHooks<
+    B extends HookName,
+    A extends AfterWriteHookName,
+    P extends HookPayloads[B] & Omit<HookPayloads[A], 'result'>,
+    R
+  >(
+    before: B,
+    after: A,
+    payload: P,
+    write: (payload: P) => Promise<R>
+  ): Promise<R> {
+    const hasHooks =
+      getHooks(this, before).length > 0 || getHooks(this, after).length > 0
+
+    if (!hasHooks) {
+      const result = await this.withQueryContext(() => write(payload))
+      await this.invalidateCache()
+      return result
+    }
+
+    const result = await this.db.transaction(async db => {
+      await this.runHooks(before, payload, db)
+      const written = await this.withQueryContext(() => write(payload))
+      await this.runHooks(after, withResult<A>(payload, written), db)
+
+      return written
+    })
+    await this.invalidateCache()
+
+    return result
+  }
+
+  /**
+   * Return the cached result of the read if the Model has a cache, or run it and cache its result.
+   * Results are copied on the way in and out, so callers can't modify the cached value
+   * @param args - Identify the read, along with the Model and its deleted scope
+   * @param read
+   */
+  protected static async withCache<R>(
+    args: any[],
+    read: () => Promise<R>
+  ): Promise<R> {
+    if (!this.cache || this.db.getTransaction()) {
+      return read()
+    }
+
+    const { ttlMillis, store = defaultCacheStore } = this.cache
+    const prefix = this.getCachePrefix()
+    const key = prefix + JSON.stringify([...args, this.deletedScope])
+
+    const cached = await store.get(key)
+    if (cached !== undefined) {
+      return cloneValue(cached)
+    }
+
+    const generation = cacheGenerations.get(prefix)
+    const result = await read()
+    // A write committed while the read ran, so its result could be outdated
+    if (cacheGenerations.get(prefix) === generation) {
+      await store.set(key, cloneValue(result), ttlMillis)
+    }
+    return result
+  }
+
+  /**
+   * Drop every cached read of the Model, if it has a cache.
+   * Inside a transaction it waits for the outermost one to commit, so reads can't cache the rows as they were before it
+   */
+  protected static async invalidateCache(): Promise<void> {
+    if (!this.cache) return
+
+    const { store = defaultCacheStore } = this.cache
+    const prefix = this.getCachePrefix()
+
+    await this.db.afterCommit(() => {
+      cacheGenerations.set(prefix, (cacheGenerations.get(prefix) || 0) + 1)
+      return store.deleteByPrefix(prefix)
+    })
+  }
+
+  protected static getCachePrefix(): string {
+    return `model:${this.tableName}:`
+  }
+
+  /**
+   * Run the callback tagging the queries it makes with the name of this Model. See {@link postgres#onQuery}
+   */
+  protected static withQueryContext<R>(callback: () => R): R {
+    return this.db.withQueryContext({ model: this.name }, callback)
+  }
+
+  protected static async runHooks<N extends HookName>(
+    name: N,
+    payload: HookPayloads[N],
+    db: Postgres = this.db
+  ): Promise<void> {
+    const args = { ...payload, db, model: this } as HookArgs<N>
+
+    for (const hook of getHooks(this, name)) {
+      await hook(args)
+    }
+  }
+
+  /**
+   * Add the soft delete condition for the current scope, if softDelete is on
+   * @param [conditions]
+   * @param [column=deleted_at] - Qualified name of the column when the table is joined
+   */
+  protected static toScopedConditions(
+    conditions?: Conditions,
+    column: string = 'deleted_at'
+  ): Conditions | undefined {
+    if (!this.softDelete || this.deletedScope === 'include') {
+      return conditions
+    }
+
+    const scope: Conditions = {
+      [column]: this.deletedScope === 'only' ? { $ne: null } : null
+    }
+    return conditions && Object.keys(conditions).length > 0
+      ? { $and: [conditions, scope] }
+      : scope
+  }
+
+  private static copyRows<U extends QueryPart = any>(
+    rows: Iterable<U> | AsyncIterable<U>,
+    columns: (keyof U & string)[]
+  ): Promise<number> {
+    if (!this.withTimestamps) {
+      return this.db.copyFrom(this.tableName, rows, columns)
+    }
+
+    const now = new Date()
+    const timestampColumns = ['created_at', 'updated_at'].filter(
+      column => !columns.includes(column as keyof U & string)
+    )
+    async function* withTimestamps() {
+      for await (const row of rows) {
+        yield { created_at: now, updated_at: now, ...row }
+      }
+    }
+
+    return this.db.copyFrom(this.tableName, withTimestamps(), [
+      ...columns,
+      ...timestampColumns
+    ])
+  }
+
+  private static iterate(
+    conditions?: Conditions,
+    orderBy?: QueryPart,
+    options: StreamOptions = {}
+  ): AsyncIterableIterator<any> {
+    const batches = this.withQueryContext(() =>
+      this.db.selectCursor(
+        this.tableName,
+        this.toScopedConditions(conditions),
+        orderBy,
+        options.batchSize
+      )
+    )
+    return this.processBatches(batches, options.include)
+  }
+
+  private static async *processBatches(
+    batches: AsyncIterable<any[]>,
+    include?: string[]
+  ): AsyncIterableIterator<any> {
+    for await (const rows of batches) {
+      await this.processFound(rows, { include })
+      yield* rows
+    }
+  }
+
+  private static async processFound(rows: any[], options: FindOptions) {
+    if (options.include) {
+      await this.loadRelations(rows, options.include)
+    }
+    await this.runHooks('afterFind', { rows })
+  }
+
+  private static async loadRelation(
+    rows: any[],
+    name: string,
+    relation: RelationDefinition,
+    include: string[]
+  ): Promise<void> {
+    const Related: typeof Model = relation.model()
+    const { type, foreignKey } = relation
+
+    if (type === 'belongsTo') {
+      const targetKey = relation.targetKey || Related.primaryKey
+      const related = await Related.find(
+        { [targetKey]: { $in: getKeys(rows, foreignKey) } },
+        undefined,
+        { include }
+      )
+      const byKey = groupBy(related, targetKey)
+
+      for (const row of rows) {
+        const matches = byKey.get(String(row[foreignKey]))
+        row[name] = matches ? matches[0] : null
+      }
+      return
+    }
+
+    const localKey = relation.localKey || this.primaryKey
+    const keys = getKeys(rows, localKey)
+    let byKey: Map<string, any[]>
+
+    if (type === 'manyToMany') {
+      const { through, otherKey } = relation
+      const related = await Related.query()
+        .select(
+          `"${Related.tableName}".*`,
+          `"${through}"."${foreignKey}" AS "${RELATION_KEY}"`
+        )
+        .join(
+          `"${through}"`,
+          `"${through}"."${otherKey}" = "${Related.tableName}"."${Related.primaryKey}"`
+        )
+        .where({ [`${through}.${foreignKey}`]: { $in: keys } })
+        .run()
+
+      byKey = groupBy(related, RELATION_KEY)
+      related.forEach(row => delete row[RELATION_KEY])
+      await Related.processFound(related, { include })
+    } else {
+      const related = await Related.find(
+        { [foreignKey]: { $in: keys } },
+        undefined,
+        { include }
+      )
+      byKey = groupBy(related, foreignKey)
+    }
+
+    for (const row of rows) {
+      const matches = byKey.get(String(row[localKey])) || []
+      row[name] = type === 'hasOne' ? matches[0] || null : matches
+    }
+  }
+
+  /**
+   * Increments the version of the updated rows, for versioned Models
+   */
+  private static getVersionIncrement(): SQLStatement {
+    return raw(`${this.tableName}."version" + 1`)
+  }
+
+  /**
+   * If the Model is versioned, rows updated by the ON CONFLICT clause get their version incremented instead of the inserted one.
+   * Without changes, they're updated with the values they tried to insert, as {@link postgres#insertMany} does
+   * @param onConflict
+   * @param rows       - Inserted rows
+   */
+  private static toVersionedOnConflict(
+    onConflict: OnConflict,
+    rows: QueryPart[]
+  ): OnConflict {
+    if (!this.versioned || onConflict.target.length === 0) return onConflict
+
+    let changes = onConflict.changes
+    if (!changes) {
+      const columns = new Set<string>()
+      for (const row of rows) {
+        Object.keys(row).forEach(column => columns.add(column))
+      }
+
+      changes = {}
+      for (const column of columns) {
+        if (!onConflict.target.includes(column)) {
+          changes[column] = raw(`EXCLUDED."${column}"`)
+        }
+      }
+    }
+
+    return {
+      ...onConflict,
+      changes: { ...changes, version: this.getVersionIncrement() }
+    }
+  }
+
+  private static async insertRow<U extends QueryPart = any>(
+    row: U,
+    onConflict?: OnConflict
+  ): Promise<any> {
+    await this.validate(row)
+
     if (onConflict) {
       const changes = Object.assign({}, onConflict.changes) // Shallow copy, we only modify top level props
       onConflict.changes = onConflict.changes ? changes : row
     }
 
+    if (this.versioned) {
+      Object.assign(row, { version: row.version || 1 })
+    }
+
     if (this.withTimestamps) {
       const now = new Date()
 
@@ -177,6 +1256,10 @@ export class Model<T> {
       }
     }
 
+    if (onConflict) {
+      onConflict = this.toVersionedOnConflict(onConflict, [row])
+    }
+
     const insertion = await this.db.insert(
       this.tableName,
       row,
@@ -189,7 +1272,7 @@ export class Model<T> {
       Object.assign(row, { [this.primaryKey]: newRow[this.primaryKey] })
     }
 
-    return row
+    return insertion
   }
 
   getConstructor() {
@@ -209,13 +1292,14 @@ export class Model<T> {
    * Return the row for the this.attributes primaryKey property or the supplied conditions, forwards to Model.findOne
    * @param  conditions - An object describing the WHERE clause.
    */
-  async retreive(conditions?: Partial<T>): Promise<T> {
+  async retreive(conditions?: Conditions<T>): Promise<T> {
     const Constructor = this.getConstructor()
     const query = conditions ? conditions : this.getDefaultQuery()
 
     const attributes = await Constructor.findOne<T>(query)
     if (attributes) {
       this.attributes = attributes
+      this.takeSnapshot()
     }
 
     return this.attributes
@@ -226,7 +1310,8 @@ export class Model<T> {
    */
   async create() {
     const row = await this.getConstructor().create<T>(this.attributes)
-    this.set(this.primaryKey, row[this.primaryKey])
+    this.assignWrittenColumns(row)
+    this.takeSnapshot()
     return row
   }
 
@@ -238,28 +1323,134 @@ export class Model<T> {
       this.attributes,
       onConflict
     )
-    this.set(this.primaryKey, row[this.primaryKey])
+    this.assignWrittenColumns(row)
+    this.takeSnapshot()
     return row
   }
 
   /**
-   * Forwards to Mode.update using this.attributes. If no conditions are supplied, it uses this.attributes[primaryKey]
+   * Forwards to Mode.update using the changed attributes, see {@link Model#changed}. If no conditions are supplied, it uses this.attributes[primaryKey]
+   * If nothing changed since the instance was retreived, created or updated, it skips the query.
+   * If the Model is versioned, it only updates the row if it still has the version of this.attributes and increments it
    * @params [conditions={ primaryKey: this.attributes[primaryKey] }]
+   * @return The query result, or undefined if nothing changed
+   * @throws {StaleRecordError} If the Model is versioned and the row was modified since it was read
    */
-  update(conditions?: Partial<T>) {
+  async update(conditions?: Conditions<T>) {
+    const Constructor = this.getConstructor()
     const query = conditions ? conditions : this.getDefaultQuery()
-    return this.getConstructor().update(this.attributes, query)
+    const changes: QueryPart = this.changed()
+
+    if (Object.keys(changes).length === 0) return undefined
+
+    const attributes: QueryPart = this.attributes
+    if (Constructor.withTimestamps) {
+      // Set here rather than by Model.update, so the snapshot gets it too
+      changes.updated_at = changes.updated_at || new Date()
+    }
+
+    if (!Constructor.versioned) {
+      const result = await Constructor.update(changes, query)
+      if (Constructor.withTimestamps) {
+        attributes.updated_at = changes.updated_at
+      }
+      this.takeSnapshot()
+      return result
+    }
+
+    const version = attributes.version
+    if (typeof version !== 'number') {
+      throw new Error(
+        `Tried to update a row on ${this.tableName} without its version. Retreive it before updating it`
+      )
+    }
+
+    const current: Conditions = { $and: [query, { version }] }
+    const result = await Constructor.update(
+      { ...changes, version: version + 1 },
+      current
+    )
+    if (result.rowCount === 0) {
+      throw new StaleRecordError(this.tableName, version)
+    }
+    attributes.version = version + 1
+    if (Constructor.withTimestamps) {
+      attributes.updated_at = changes.updated_at
+    }
+    this.takeSnapshot()
+
+    return result
   }
 
   /**
    * Forwards to Mode.delete using this.attributes. If no conditions are supplied, it uses this.attributes[primaryKey]
    * @params [conditions={ primaryKey: this.attributes[primaryKey] }]
    */
-  delete(conditions?: Partial<T>) {
+  delete(conditions?: Conditions<T>) {
     const query = conditions ? conditions : this.getDefaultQuery()
     return this.getConstructor().delete(query)
   }
 
+  /**
+   * Forwards to Model.forceDelete. If no conditions are supplied, it uses this.attributes[primaryKey]
+   * @params [conditions={ primaryKey: this.attributes[primaryKey] }]
+   */
+  forceDelete(conditions?: Conditions<T>) {
+    const query = conditions ? conditions : this.getDefaultQuery()
+    return this.getConstructor().forceDelete(query)
+  }
+
+  /**
+   * Forwards to Model.restore. If no conditions are supplied, it uses this.attributes[primaryKey]
+   * @params [conditions={ primaryKey: this.attributes[primaryKey] }]
+   */
+  restore(conditions?: Conditions<T>) {
+    const query = conditions ? conditions : this.getDefaultQuery()
+    return this.getConstructor().restore(query)
+  }
+
+  /**
+   * Returns true if any attribute changed since the instance was retreived, created or updated. New instances are always dirty
+   * @param [key] - Only check this attribute
+   */
+  isDirty(key?: keyof T): boolean {
+    const changes = this.changed()
+    return key === undefined
+      ? Object.keys(changes).length > 0
+      : Object.prototype.hasOwnProperty.call(changes, key)
+  }
+
+  /**
+   * Get the attributes that changed since the instance was retreived, created or updated, with their current values.
+   * Removed attributes are returned as undefined, so updating the row sets them to NULL. Every attribute is returned for new instances
+   */
+  changed(): Partial<T> {
+    const attributes = this.attributes || ({} as T)
+    if (!this.snapshot) return { ...attributes }
+
+    const keys = new Set([
+      ...Object.keys(attributes),
+      ...Object.keys(this.snapshot)
+    ]) as Set<keyof T>
+    const changes: Partial<T> = {}
+    for (const key of keys) {
+      if (!isEqualValue(attributes[key], this.snapshot[key])) {
+        changes[key] = attributes[key]
+      }
+    }
+
+    return changes
+  }
+
+  /**
+   * Get the value an attribute had when the instance was retreived, created or updated
+   * @param key
+   * @return The previous value, undefined for new instances
+   */
+  previous<K extends keyof T>(key: K): T[K] | undefined {
+    return this.snapshot ? this.snapshot[key] : undefined
+  }
+
   /**
    * Returns true if the `attributes` property evaluates to false
    * Or it's an empty object
@@ -348,4 +1539,164 @@ export class Model<T> {
     this.attributes = Object.assign({}, this.attributes, template)
     return this
   }
+
+  /**
+   * Copy the columns the static methods write on their own to the attributes: the primary key, timestamps and version
+   */
+  private assignWrittenColumns(row: QueryPart) {
+    const Constructor = this.getConstructor()
+    const attributes: QueryPart = this.attributes
+    const columns: string[] = [this.primaryKey as string]
+
+    if (Constructor.withTimestamps) columns.push('created_at', 'updated_at')
+    if (Constructor.versioned) columns.push('version')
+
+    for (const column of columns) {
+      if (row[column] !== undefined) attributes[column] = row[column]
+    }
+  }
+
+  private takeSnapshot() {
+    this.snapshot = cloneValue(this.attributes)
+  }
+}
+
+/**
+ * Alias for the join table key selected when loading many to many relations
+ */
+const RELATION_KEY = '__relation_key'
+
+/**
+ * Times the cache of each Model was invalidated, by cache prefix. Reads started before an invalidation don't cache their result
+ */
+const cacheGenerations = new Map<string, number>()
+
+/**
+ * Rows per statement for bulk operations. The amount of values is also capped to the 65535 parameters Postgres accepts
+ */
+const DEFAULT_CHUNK_SIZE = 1000
+const MAX_PARAMETERS = 65535
+
+/**
+ * Payload for the hook running after a write: the one the before hook got, along with the result of the write
+ */
+function withResult<A extends AfterWriteHookName>(
+  payload: Omit<HookPayloads[A], 'result'>,
+  result: any
+): HookPayloads[A] {
+  return { ...payload, result } as HookPayloads[A]
+}
+
+function assertPositiveInteger(name: string, value: number) {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} should be a positive integer, got ${value}`)
+  }
+}
+
+function getKeys(rows: any[], key: string): any[] {
+  const keys = rows.map(row => row[key]).filter(value => value != null)
+  return Array.from(new Set(keys))
+}
+
+function groupBy<U>(rows: U[], key: string): Map<string, U[]> {
+  const groups = new Map<string, U[]>()
+
+  for (const row of rows) {
+    const value = String(row[key])
+    groups.set(value, [...(groups.get(value) || []), row])
+  }
+
+  return groups
+}
+
+/**
+ * Amount of columns a bulk statement will have for the rows, which is every column found on any of them
+ */
+function countColumns(rows: QueryPart[]): number {
+  const columns = new Set<string>()
+
+  for (const row of rows) {
+    Object.keys(row).forEach(column => columns.add(column))
+  }
+
+  return columns.size
+}
+
+/**
+ * Split a list in chunks, keeping the values of each chunk under the parameter limit
+ * @param items
+ * @param chunkSize   - Max items per chunk
+ * @param valueCount  - Values each item uses
+ */
+function toChunks<T>(items: T[], chunkSize: number, valueCount: number): T[][] {
+  const size = Math.max(
+    1,
+    Math.min(chunkSize, Math.floor(MAX_PARAMETERS / Math.max(valueCount, 1)))
+  )
+  const chunks: T[][] = []
+
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+
+  return chunks
+}
+
+/**
+ * Subclass of the Model overriding some of its statics. Hooks registered on the Model still apply, as they're looked up through the prototype chain
+ * @param model
+ * @param statics
+ */
+function extendModel<M extends ModelClass>(
+  model: M,
+  statics: Partial<ModelClass>
+): M {
+  const Base = (model as unknown) as typeof Model
+  const Extended = class extends Base<any> {}
+  Object.defineProperty(Extended, 'name', { value: Base.name })
+
+  return (Object.assign(Extended, statics) as unknown) as M
+}
+
+/**
+ * Deep copy of plain objects, arrays and Dates, so nested changes (like the ones made by setIn) don't reach the copy
+ */
+function cloneValue<V>(value: V): V {
+  if (value instanceof Date) return (new Date(value.getTime()) as unknown) as V
+  if (Array.isArray(value)) return (value.map(cloneValue) as unknown) as V
+  if (isPlainObject(value)) {
+    const copy: any = {}
+    for (const key of Object.keys(value)) {
+      copy[key] = cloneValue(value[key])
+    }
+    return copy
+  }
+  return value
+}
+
+function isEqualValue(a: any, b: any): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime()
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length && a.every((item, i) => isEqualValue(item, b[i]))
+    )
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a)
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(key => isEqualValue(a[key], b[key]))
+    )
+  }
+  return a === b
+}
+
+function isPlainObject(value: any): boolean {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    Object.getPrototypeOf(value) === Object.prototype
+  )
 }
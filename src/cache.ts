@@ -0,0 +1,78 @@
+/**
+ * Where cached values are kept. Methods can be sync or async, so stores can live outside the process
+ */
+export interface CacheStore {
+  /**
+   * @return The value, or undefined if it's missing or expired
+   */
+  get(key: string): any | Promise<any>
+  set(key: string, value: any, ttlMillis: number): void | Promise<void>
+  delete(key: string): void | Promise<void>
+  /**
+   * Delete every key starting with the prefix. Used to invalidate all the cached reads of a Model
+   */
+  deleteByPrefix(prefix: string): void | Promise<void>
+}
+
+export interface CacheOptions {
+  ttlMillis: number
+  store?: CacheStore
+}
+
+const DEFAULT_MAX_ENTRIES = 1000
+
+/**
+ * Cache store kept in memory. Once it holds `maxEntries`, the least recently used entry is dropped for each new one
+ */
+export class LRUCacheStore implements CacheStore {
+  maxEntries: number
+  entries = new Map<string, { value: any; expiresAt: number }>()
+
+  /**
+   * @param [maxEntries=1000]
+   */
+  constructor(maxEntries: number = DEFAULT_MAX_ENTRIES) {
+    this.maxEntries = maxEntries
+  }
+
+  get(key: string): any {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+
+    this.entries.delete(key)
+    if (entry.expiresAt <= Date.now()) return undefined
+
+    // Maps keep insertion order, so re-adding the entry marks it as the most recently used
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  set(key: string, value: any, ttlMillis: number): void {
+    this.entries.delete(key)
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMillis })
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      this.entries.delete(oldest)
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key)
+  }
+
+  deleteByPrefix(prefix: string): void {
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) this.entries.delete(key)
+    }
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
+}
+
+/**
+ * Store used by the Model and response caches unless they're given their own
+ */
+export const defaultCacheStore = new LRUCacheStore()
@@ -0,0 +1,124 @@
+import {
+  BadRequestError,
+  ConflictError,
+  HttpError,
+  UnprocessableError
+} from '../errors'
+
+/**
+ * Error thrown by `pg` when Postgres rejects a query. See {@link https://www.postgresql.org/docs/current/errcodes-appendix.html}
+ */
+interface PostgresError extends Error {
+  code?: string
+  detail?: string
+  column?: string
+  constraint?: string
+  table?: string
+}
+
+type ErrorMapper = (error: PostgresError) => HttpError
+
+/**
+ * Errors for each SQLSTATE code. Messages are safe to send to the client, the original error is kept on `cause`
+ */
+const SQLSTATE_ERRORS: Record<string, ErrorMapper> = {
+  '23505': error =>
+    new ConflictError(
+      'A row with the same values already exists',
+      { code: 'unique_violation', fields: getKeyFields(error) },
+      error
+    ),
+  '23503': error =>
+    isStillReferenced(error)
+      ? new ConflictError(
+          'The row is still referenced by other rows',
+          { code: 'foreign_key_violation', fields: getKeyFields(error) },
+          error
+        )
+      : new UnprocessableError(
+          'A referenced row does not exist',
+          { code: 'foreign_key_violation', fields: getKeyFields(error) },
+          error
+        ),
+  '23502': error =>
+    new BadRequestError(
+      `${error.column || 'A column'} is required`,
+      {
+        code: 'not_null_violation',
+        fields: error.column ? [error.column] : []
+      },
+      error
+    ),
+  '23514': error =>
+    new UnprocessableError(
+      'A value does not satisfy the table constraints',
+      { code: 'check_violation' },
+      error
+    ),
+  '22P02': error =>
+    new BadRequestError(
+      'A value has an invalid format for its column',
+      { code: 'invalid_text_representation' },
+      error
+    ),
+  '22001': error =>
+    new BadRequestError(
+      'A value is too long for its column',
+      { code: 'string_data_right_truncation' },
+      error
+    ),
+  '22003': error =>
+    new BadRequestError(
+      'A numeric value is out of range',
+      { code: 'numeric_value_out_of_range' },
+      error
+    ),
+  '22007': error =>
+    new BadRequestError(
+      'A date or time value has an invalid format',
+      { code: 'invalid_datetime_format' },
+      error
+    ),
+  '22008': error =>
+    new BadRequestError(
+      'A date or time value is out of range',
+      { code: 'datetime_field_overflow' },
+      error
+    ),
+  '40001': error =>
+    new ConflictError(
+      'The row was modified concurrently, try again',
+      { code: 'serialization_failure' },
+      error
+    )
+}
+
+/**
+ * Map an error thrown by Postgres to the {@link HttpError} for its SQLSTATE code, if there's one. Other errors are returned as they are.
+ * The mapped error keeps the `code` and `constraint` of the original one, so checks like `error.code === '23505'` still work
+ * @param error
+ */
+export function toHttpError(error: any): Error {
+  const mapper =
+    error && typeof error.code === 'string'
+      ? SQLSTATE_ERRORS[error.code]
+      : undefined
+  if (!mapper) return error
+
+  const { code, constraint }: PostgresError = error
+  return Object.assign(mapper(error), { code, constraint })
+}
+
+/**
+ * Columns named on the error detail, which looks like `Key (owner, x)=(0x1, 2) already exists.` The values are left out
+ */
+function getKeyFields(error: PostgresError): string[] {
+  const match = (error.detail || '').match(/^Key \((.+?)\)=/)
+  return match
+    ? match[1].split(',').map(field => field.trim().replace(/^"|"$/g, ''))
+    : []
+}
+
+function isStillReferenced(error: PostgresError): boolean {
+  return (error.detail || '').includes('is still referenced')
+}
@@ -1,5 +1,9 @@
 import { Postgres, postgres } from './postgres'
 
+export * from './errors'
+export * from './instrumentation'
 export * from './postgres'
+export * from './queryBuilder'
+export * from './schema'
 export * from './types'
 export const clients: { postgres: Postgres } = { postgres }
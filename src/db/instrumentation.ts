@@ -0,0 +1,163 @@
+import { Postgres } from './postgres'
+import { QueryEvent, QueryListener } from './types'
+
+export type QueryRedactor = (values: any[], text: string) => any[]
+
+export interface QueryLogEntry {
+  text: string
+  values: any[]
+  duration: number
+  rowCount: number | null
+  model?: string
+  requestId?: string
+  error?: string
+  plan?: string
+}
+
+export interface QueryLogger {
+  info: (entry: QueryLogEntry) => void
+  warn: (entry: QueryLogEntry) => void
+}
+
+export interface InstrumentationOptions {
+  logQueries?: boolean
+  slowQueryMillis?: number | null
+  explainSlowQueries?: boolean
+  redact?: boolean | QueryRedactor
+  logger?: QueryLogger
+}
+
+const REDACTED = '[REDACTED]'
+
+/**
+ * Logs each entry as a line of JSON, using console.log or console.warn
+ */
+export const consoleQueryLogger: QueryLogger = {
+  info: entry => console.log(JSON.stringify(entry)),
+  warn: entry => console.warn(JSON.stringify(entry))
+}
+
+/**
+ * Default redactor. Keeps numbers, booleans, nulls and Dates, which are mostly ids and timestamps, and hides every other value
+ * @param values
+ */
+export function redactValues(values: any[]): any[] {
+  return values.map(value =>
+    value === null ||
+    value === undefined ||
+    typeof value === 'number' ||
+    typeof value === 'boolean' ||
+    value instanceof Date
+      ? value
+      : REDACTED
+  )
+}
+
+/**
+ * Log the queries made through the client. Every option defaults to off, so each environment can enable what it needs
+ * @example
+ * instrumentQueries(postgres, {
+ *   logQueries: process.env.NODE_ENV === 'development',
+ *   slowQueryMillis: 500,
+ *   explainSlowQueries: process.env.NODE_ENV !== 'production'
+ * })
+ * @param db
+ * @param [options]
+ * @param [options.logQueries=false]         - Log every query with logger.info
+ * @param [options.slowQueryMillis]          - Log the queries that take longer than this (and the failed ones) with logger.warn
+ * @param [options.explainSlowQueries=false] - Run EXPLAIN ANALYZE for slow SELECTs and add the plan to the entry. The query runs again on the primary
+ * @param [options.redact=true]              - Redact the values, using {@link instrumentation#redactValues} or the supplied function. Use false to log them as they are
+ * @param [options.logger=consoleQueryLogger]
+ * @return A function that stops logging
+ */
+export function instrumentQueries(
+  db: Postgres,
+  options: InstrumentationOptions = {}
+): () => void {
+  const {
+    logQueries = false,
+    slowQueryMillis = null,
+    explainSlowQueries = false,
+    redact = true,
+    logger = consoleQueryLogger
+  } = options
+
+  if (!logQueries && slowQueryMillis === null) {
+    return () => undefined
+  }
+
+  const listener: QueryListener = event => {
+    const entry = toLogEntry(event, redact)
+    const isSlow =
+      slowQueryMillis !== null &&
+      (event.duration >= slowQueryMillis || !!event.error)
+
+    if (!isSlow) {
+      if (logQueries) logger.info(entry)
+      return
+    }
+
+    if (!explainSlowQueries || event.error || !isSelect(event.text)) {
+      logger.warn(entry)
+      return
+    }
+
+    explain(db, event)
+      .then(
+        plan => logger.warn({ ...entry, plan }),
+        error =>
+          logger.warn({ ...entry, plan: `Explain failed: ${error.message}` })
+      )
+      .catch(() => {
+        // Same as the listeners, a failing logger can't break anything
+      })
+  }
+
+  return db.onQuery(listener)
+}
+
+/**
+ * Run EXPLAIN ANALYZE for the query on the primary pool, which isn't instrumented
+ * @param db
+ * @param event
+ * @return The plan, one node per line
+ */
+export async function explain(
+  db: Postgres,
+  event: QueryEvent
+): Promise<string> {
+  const result = await db.pool.query(
+    `EXPLAIN ANALYZE ${event.text}`,
+    event.values
+  )
+  return result.rows.map(row => row['QUERY PLAN']).join('\n')
+}
+
+function toLogEntry(
+  event: QueryEvent,
+  redact: boolean | QueryRedactor
+): QueryLogEntry {
+  let values = event.values
+  if (redact === true) {
+    values = redactValues(values)
+  } else if (redact) {
+    values = redact(values, event.text)
+  }
+
+  return {
+    text: event.text.replace(/\s+/g, ' ').trim(),
+    values,
+    duration: Math.round(event.duration * 1000) / 1000,
+    rowCount: event.rowCount,
+    model: event.model,
+    requestId: event.requestId,
+    error: event.error ? event.error.message : undefined
+  }
+}
+
+/**
+ * Only SELECTs are explained, as EXPLAIN ANALYZE executes the statement
+ */
+function isSelect(text: string) {
+  return /^\s*SELECT\b/i.test(text)
+}
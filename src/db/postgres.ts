@@ -1,29 +1,316 @@
 import * as pg from 'pg'
+import { from as copyFrom } from 'pg-copy-streams'
+import { AsyncLocalStorage } from 'async_hooks'
+import { Readable, pipeline } from 'stream'
+import { promisify } from 'util'
+import { getRequestContext } from '../requestContext'
+import { SQL, SQLStatement, join, raw } from '../sql'
+import { toHttpError } from './errors'
 import {
   Column,
+  CommitErrorListener,
+  Conditions,
   OrderClause,
   QueryArgument,
   QueryPart,
-  OnConflict
+  OnConflict,
+  PoolOptions,
+  PoolStats,
+  Queryable,
+  QueryContext,
+  QueryListener,
+  TableColumn
 } from './types'
 
+/**
+ * Holds the transaction running on the current async context, so queries made inside the callback of {@link postgres#transaction} pick it up
+ */
+const transactionStorage = new AsyncLocalStorage<Transaction>()
+
+/**
+ * Set while the callback of {@link postgres#usePrimary} runs, so reads skip the replicas
+ */
+const primaryStorage = new AsyncLocalStorage<boolean>()
+
+/**
+ * Context attached to the query events emitted while the callback of {@link postgres#withQueryContext} runs
+ */
+const queryContextStorage = new AsyncLocalStorage<QueryContext>()
+
+/**
+ * Rows fetched on each round trip by cursors
+ */
+const DEFAULT_BATCH_SIZE = 1000
+
+/**
+ * Maximum amount of clients of each pool, same as pg's default
+ */
+const DEFAULT_POOL_SIZE = 10
+
+/**
+ * How often the replicas are checked
+ */
+const DEFAULT_HEALTH_CHECK_INTERVAL = 10000
+
+let cursorCount = 0
+
 export class Postgres {
-  client: pg.Client
+  pool: pg.Pool
+  replicas: pg.Pool[] = []
+
+  queryListeners: QueryListener[] = []
+  commitErrorListeners: CommitErrorListener[] = []
+  private unhealthyReplicas = new Set<pg.Pool>()
+  private replicaIndex: number = 0
+  private healthCheckInterval: NodeJS.Timeout | undefined
 
   /**
-   * Connect to the Postgres database
+   * Queryable used for each call. If a transaction started by this instance is running on the current async context, it'll be its client. Otherwise, the pool
+   */
+  get client(): Queryable {
+    const transaction = this.getTransaction()
+    return transaction ? transaction.client : this.instrument(this.pool)
+  }
+
+  /**
+   * Queryable used for reads (select, selectOne, count and cursors). Same as {@link postgres#client} inside a transaction or {@link postgres#usePrimary}, otherwise one of the healthy replicas, if any
+   */
+  get readClient(): Queryable {
+    const transaction = this.getTransaction()
+    return transaction
+      ? transaction.client
+      : this.instrument(this.getReadPool())
+  }
+
+  /**
+   * Connect to the Postgres database using a pool of clients. Each query checks out a client from the pool and releases it when it's done
    * @param connectionString
+   * @param [options]                      - Options controling the size and timeouts of the pool
+   * @param [options.min=0]                - Amount of clients kept open, opened on connect and replaced when they're closed for being idle. It can't exceed `max`
+   * @param [options.max=10]               - Maximum amount of clients the pool will hold
+   * @param [options.idleTimeoutMillis]    - How long a client can sit idle in the pool before being closed
+   * @param [options.acquireTimeoutMillis] - How long to wait for a client to be available before throwing
+   * @param [options.replicas]             - Connection strings of read replicas. Each one gets its own pool, with the same options
+   * @param [options.healthCheckIntervalMillis=10000] - How often the replicas are checked, see {@link postgres#checkReplicas}
+   */
+  async connect(
+    connectionString?: string,
+    options: PoolOptions = {}
+  ): Promise<pg.Pool> {
+    const {
+      min = 0,
+      replicas = [],
+      healthCheckIntervalMillis = DEFAULT_HEALTH_CHECK_INTERVAL
+    } = options
+
+    this.pool = createPool(connectionString, options)
+    this.replicas = replicas.map(replica => {
+      const pool = createPool(replica, options)
+      pool.on('error', () => this.unhealthyReplicas.add(pool))
+      return pool
+    })
+
+    // Check out (and release) the minimum amount of clients so they're ready to use, which also checks the connection works
+    const clients = await Promise.all(
+      Array.from({ length: Math.max(min, 1) }, () => this.pool.connect())
+    )
+    clients.forEach(client => client.release())
+
+    if (this.replicas.length > 0) {
+      await this.checkReplicas()
+      this.healthCheckInterval = setInterval(
+        () => this.checkReplicas(),
+        healthCheckIntervalMillis
+      )
+      this.healthCheckInterval.unref()
+    }
+
+    return this.pool
+  }
+
+  /**
+   * Check each replica running a trivial query. Failing replicas stop receiving reads until a later check succeeds.
+   * It runs periodically after connecting
+   * @return Whether each replica is healthy, in the order they were supplied
+   */
+  async checkReplicas(): Promise<boolean[]> {
+    return Promise.all(
+      this.replicas.map(async replica => {
+        try {
+          await replica.query('SELECT 1')
+          this.unhealthyReplicas.delete(replica)
+          return true
+        } catch (error) {
+          this.unhealthyReplicas.add(replica)
+          return false
+        }
+      })
+    )
+  }
+
+  /**
+   * Pool used for reads outside transactions. Replicas are used in turns, skipping the unhealthy ones.
+   * It falls back to the primary pool if there're no healthy replicas or inside {@link postgres#usePrimary}
+   */
+  getReadPool(): pg.Pool {
+    const replicas = this.replicas.filter(
+      replica => !this.unhealthyReplicas.has(replica)
+    )
+    if (replicas.length === 0 || primaryStorage.getStore()) {
+      return this.pool
+    }
+
+    this.replicaIndex = (this.replicaIndex + 1) % replicas.length
+    return replicas[this.replicaIndex]
+  }
+
+  /**
+   * Run the callback reading from the primary. Every read made while it runs skips the replicas, useful to read rows right after writing them
+   * @example
+   * await Parcel.update({ owner }, { id })
+   * const parcel = await postgres.usePrimary(() => Parcel.findOne(id))
+   * @param callback
+   * @return The value returned by the callback
+   */
+  usePrimary<T>(callback: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) =>
+      primaryStorage.run(true, () => callback().then(resolve, reject))
+    )
+  }
+
+  /**
+   * Current state of the pool
+   * @return Amount of total, idle and waiting clients
+   */
+  getPoolStats(): PoolStats {
+    return {
+      total: this.pool.totalCount,
+      idle: this.pool.idleCount,
+      waiting: this.pool.waitingCount
+    }
+  }
+
+  /**
+   * Listen to every query made through this client (and its transactions), including the failed ones.
+   * Events have the raw values, redact them before logging them. See {@link instrumentation#instrumentQueries}
+   * @param listener - Receives the SQL text, values, duration in milliseconds, row count, calling model and error, if any. It shouldn't throw
+   * @return A function that removes the listener
    */
-  async connect(connectionString?: string): Promise<pg.Client> {
-    this.client = new pg.Client(connectionString)
+  onQuery(listener: QueryListener): () => void {
+    this.queryListeners.push(listener)
 
-    await this.client.connect()
+    return () => {
+      const index = this.queryListeners.indexOf(listener)
+      if (index !== -1) this.queryListeners.splice(index, 1)
+    }
+  }
+
+  /**
+   * Run the callback attaching the context (like the calling model) to the events of the queries it makes. See {@link postgres#onQuery}
+   * @param context
+   * @param callback
+   * @return The value returned by the callback
+   */
+  withQueryContext<T>(context: QueryContext, callback: () => T): T {
+    let result: T | undefined
+    queryContextStorage.run(
+      { ...queryContextStorage.getStore(), ...context },
+      () => {
+        result = callback()
+      }
+    )
+    return result as T
+  }
+
+  /**
+   * Run the callback inside a transaction. It commits if the callback resolves and rolls back if it throws.
+   * Every query made on this client while the callback runs (including the ones from {@link Model}) will use the transaction connection.
+   * Nested calls create a savepoint instead of a new transaction
+   * @example
+   * await postgres.transaction(async tx => {
+   *   await tx.insert('parcels', { x: 1, y: 1 })
+   *   await Estate.update({ size: 2 }, { id: 1 })
+   * })
+   * @param callback - Receives the transaction, which has the same API as the client
+   * @return The value returned by the callback
+   */
+  async transaction<T>(
+    callback: (transaction: Transaction) => Promise<T>
+  ): Promise<T> {
+    const current = this.getTransaction()
+    if (current) {
+      return current.transaction(callback)
+    }
+
+    const client = await this.pool.connect()
+    const transaction = new Transaction(this, client)
+    let result: T
+
+    try {
+      await client.query('BEGIN')
+      result = await new Promise<T>((resolve, reject) =>
+        transactionStorage.run(transaction, () =>
+          callback(transaction).then(resolve, reject)
+        )
+      )
+      await client.query('COMMIT')
+    } catch (error) {
+      const rollbackError = await client.query('ROLLBACK').then(
+        () => undefined,
+        (failure: Error) => failure
+      )
+      // A connection that can't roll back is broken, so passing the error destroys it instead of returning it to the pool
+      client.release(rollbackError)
+      throw error
+    }
+    client.release()
+
+    for (const commitCallback of transaction.commitCallbacks) {
+      await this.runCommitCallback(commitCallback)
+    }
 
-    return this.client
+    return result
   }
 
   /**
-   * Forward queries to the pg client. Check {@link https://node-postgres.com/} for more info.
+   * Run the callback once the transaction running on the current async context commits, or right away if there's none.
+   * It won't run if the transaction rolls back. The write already went through, so its errors don't reject: they're sent to the
+   * listeners registered with {@link postgres#onCommitCallbackError}
+   * @param callback
+   */
+  async afterCommit(callback: () => any): Promise<void> {
+    const transaction = this.getTransaction()
+    if (transaction) {
+      return transaction.afterCommit(callback)
+    }
+
+    await this.runCommitCallback(callback)
+  }
+
+  /**
+   * Listen to the errors thrown by the callbacks of {@link postgres#afterCommit}
+   * @param listener - Receives the error. It shouldn't throw
+   * @return A function that removes the listener
+   */
+  onCommitCallbackError(listener: CommitErrorListener): () => void {
+    this.commitErrorListeners.push(listener)
+
+    return () => {
+      const index = this.commitErrorListeners.indexOf(listener)
+      if (index !== -1) this.commitErrorListeners.splice(index, 1)
+    }
+  }
+
+  /**
+   * Get the transaction started by this client running on the current async context, if any
+   */
+  getTransaction(): Transaction | undefined {
+    const transaction = transactionStorage.getStore()
+    return transaction && transaction.db === this ? transaction : undefined
+  }
+
+  /**
+   * Forward queries to the pg pool. Check {@link https://node-postgres.com/} for more info.
    * @param  queryString
    * @param  [values]    - Values to replace in the placeholders, if any
    * @return Array containing the matched rows
@@ -36,13 +323,13 @@ export class Postgres {
   /**
    * Counts rows from a query result
    * @param  tableName
-   * @param  [conditions] - An object describing the WHERE clause. The properties should be the column names and it's values the condition value.
+   * @param  [conditions] - An object describing the WHERE clause. See {@link postgres#toWhereStatement}
    * @param  [extra]      - String appended at the end of the query
    * @return Rows
    */
   count(
     tableName: string,
-    conditions: QueryPart,
+    conditions: Conditions,
     extra: string = ''
   ): Promise<{ count: string }[]> {
     return this._query(
@@ -57,14 +344,14 @@ export class Postgres {
   /**
    * Select rows from a table
    * @param  tableName
-   * @param  [conditions] - An object describing the WHERE clause. The properties should be the column names and it's values the condition value.
+   * @param  [conditions] - An object describing the WHERE clause. See {@link postgres#toWhereStatement}
    * @param  [orderBy]    - An object describing the ORDER BY clause. The properties should be the column names and it's values the order value. See {@link postgres#getOrderValues}
    * @param  [extra]      - String appended at the end of the query
    * @return Rows
    */
   select(
     tableName: string,
-    conditions?: QueryPart,
+    conditions?: Conditions,
     orderBy?: QueryPart,
     extra?: string
   ): Promise<any> {
@@ -74,13 +361,13 @@ export class Postgres {
   /**
    * Select the first row that matches
    * @param  tableName
-   * @param  [conditions] - An object describing the WHERE clause. The properties should be the column names and it's values the condition value.
+   * @param  [conditions] - An object describing the WHERE clause. See {@link postgres#toWhereStatement}
    * @param  [orderBy]    - An object describing the ORDER BY clause. The properties should be the column names and it's values the order value. See {@link postgres#getOrderValues}
    * @return Row
    */
   async selectOne(
     tableName: string,
-    conditions?: QueryPart,
+    conditions?: Conditions,
     orderBy?: QueryPart
   ): Promise<any> {
     const rows = await this._query(
@@ -94,6 +381,62 @@ export class Postgres {
     return rows[0]
   }
 
+  /**
+   * Select rows from a table in batches, using a server-side cursor. See {@link postgres#cursor}
+   * @param  tableName
+   * @param  [conditions]      - An object describing the WHERE clause. See {@link postgres#toWhereStatement}
+   * @param  [orderBy]         - An object describing the ORDER BY clause. See {@link postgres#getOrderValues}
+   * @param  [batchSize=1000]  - Rows fetched on each round trip
+   * @return Async iterator of row batches
+   */
+  selectCursor(
+    tableName: string,
+    conditions?: Conditions,
+    orderBy?: QueryPart,
+    batchSize?: number
+  ): AsyncIterableIterator<any[]> {
+    return this.cursor(
+      this.toSelectStatement('SELECT *', tableName, conditions, orderBy),
+      batchSize
+    )
+  }
+
+  /**
+   * Read the rows of a query in batches using a server-side cursor (DECLARE/FETCH), so only one batch is held in memory at a time.
+   * The cursor lives on the current transaction or, if there's none, on its own transaction on a dedicated client.
+   * Batches are fetched as they're consumed and the cursor is closed when the iteration ends, including when the consumer stops early
+   * @example
+   * for await (const rows of db.cursor(SQL`SELECT * FROM parcels WHERE owner = ${owner}`)) { ... }
+   * @param  query
+   * @param  [batchSize=1000] - Rows fetched on each round trip
+   * @return Async iterator of row batches
+   */
+  cursor(
+    query: string | SQLStatement,
+    batchSize: number = DEFAULT_BATCH_SIZE
+  ): AsyncIterableIterator<any[]> {
+    // The transaction and pool are read now, the generator body only runs once the consumer asks for the first batch
+    return this.fetchBatches(
+      query,
+      batchSize,
+      this.getTransaction(),
+      this.getReadPool(),
+      queryContextStorage.getStore()
+    )
+  }
+
+  /**
+   * Stream the rows of a query, reading them with a server-side cursor. See {@link postgres#cursor}.
+   * The stream is on object mode and applies backpressure, a batch is only fetched once the previous one was consumed.
+   * Destroying the stream closes the cursor
+   * @param  query
+   * @param  [batchSize=1000] - Rows fetched on each round trip
+   * @return Readable stream of rows
+   */
+  stream(query: string | SQLStatement, batchSize?: number): Readable {
+    return Readable.from(toRows(this.cursor(query, batchSize)))
+  }
+
   /**
    * Insert an object on the database.
    * @example
@@ -115,82 +458,222 @@ export class Postgres {
       )
     }
 
-    const values = Object.values(changes)
-    const conflictValues = Object.values(onConflict.changes || {})
-    const returning = primaryKey ? `RETURNING ${primaryKey}` : ''
+    const query = SQL``
+      .append(
+        `INSERT INTO ${tableName} (${this.toColumnFields(changes)}) VALUES (`
+      )
+      .append(join(Object.values(changes).map(value => SQL`${value}`)))
+      .append(') ')
+      .append(this.toOnConflictUpsert(onConflict))
 
-    return this.client.query(
-      `INSERT INTO ${tableName}(
-        ${this.toColumnFields(changes)}
-      ) VALUES(
-        ${this.toValuePlaceholders(changes)}
+    if (primaryKey) {
+      query.append(` RETURNING ${primaryKey}`)
+    }
+
+    return this.client.query(query)
+  }
+
+  /**
+   * Insert multiple rows using a single multi-row INSERT statement. Columns missing on some rows use their DEFAULT value.
+   * Postgres accepts up to 65535 values per statement, so callers should split bigger inserts in chunks, like {@link Model.createMany} does.
+   * @example
+   * insertMany('users', [{ name: 'A' }, { name: 'B' }], 'id') => INSERT INTO users ("name") VALUES ($1), ($2) RETURNING id
+   * @param tableName
+   * @param rows              - Each row as an object. The properties should be the column names and it's values the value to insert
+   * @param [primaryKey='']   - Which primary key return upon insertion
+   * @param [onConflict]      - Targets for the ON CONFLICT clause and the changes to apply. If there're no changes, each conflicting row is updated with its new values
+   */
+  async insertMany(
+    tableName: string,
+    rows: QueryPart[],
+    primaryKey: string = '',
+    onConflict?: OnConflict
+  ): Promise<any> {
+    if (!rows || rows.length === 0) {
+      throw new Error(
+        `Tried to perform a bulk insert on ${tableName} without any rows. Supply an array of rows`
+      )
+    }
+
+    const columns = getColumnNames(rows)
+    const values = rows.map(
+      row =>
+        SQL`(${join(
+          columns.map(column =>
+            row[column] === undefined ? raw('DEFAULT') : SQL`${row[column]}`
+          )
+        )})`
+    )
+
+    const query = SQL``
+      .append(`INSERT INTO ${tableName} (${columns.map(quote)}) VALUES `)
+      .append(join(values))
+
+    if (onConflict) {
+      query.append(' ').append(this.toBulkOnConflict(onConflict, columns))
+    }
+    if (primaryKey) {
+      query.append(` RETURNING ${primaryKey}`)
+    }
+
+    return this.client.query(query)
+  }
+
+  /**
+   * Update multiple rows, each with its own values, using a single UPDATE ... FROM (VALUES ...) statement.
+   * Every row should have the same columns, including the key. The values are cast to the type of each column, read from information_schema
+   * @example
+   * updateMany('users', [{ id: 1, name: 'A' }, { id: 2, name: 'B' }]) =>
+   *   UPDATE users SET "name" = v."name" FROM (VALUES ($1::"int4", $2::"text"), ($3::"int4", $4::"text")) AS v("id", "name") WHERE users."id" = v."id"
+   * @param tableName
+   * @param rows       - Each row as an object, containing the key and the columns to update
+   * @param [key='id'] - Column used to match each row
+   * @param [increment] - Columns incremented by one on every updated row, like a version. Their values on the rows are ignored
+   */
+  async updateMany(
+    tableName: string,
+    rows: QueryPart[],
+    key: string = 'id',
+    increment: string[] = []
+  ): Promise<any> {
+    if (!rows || rows.length === 0) {
+      throw new Error(
+        `Tried to perform a bulk update on ${tableName} without any rows. Supply an array of rows`
+      )
+    }
+
+    const columns = getColumnNames(rows)
+    const hasEveryColumn = rows.every(row =>
+      columns.every(column => row[column] !== undefined)
+    )
+    if (!columns.includes(key) || !hasEveryColumn) {
+      throw new Error(
+        `Tried to perform a bulk update on ${tableName} with rows that have different columns. Every row should have the same columns, including "${key}"`
       )
-        ${this.toOnConflictUpsert(onConflict, values.length)}
-        ${returning}`,
-      values.concat(conflictValues)
+    }
+
+    const tableColumns = await this.getTableColumns(tableName)
+    const types = new Map(
+      tableColumns.map(column => [column.column_name, column.udt_name])
+    )
+    const values = rows.map(
+      row =>
+        SQL`(${join(
+          columns.map(column =>
+            SQL`${row[column]}`.append(
+              types.has(column) ? `::"${types.get(column)}"` : ''
+            )
+          )
+        )})`
+    )
+    const assignments = columns
+      .filter(column => column !== key && !increment.includes(column))
+      .map(column => `"${column}" = v."${column}"`)
+      .concat(
+        increment.map(column => `"${column}" = ${tableName}."${column}" + 1`)
+      )
+
+    return this.client.query(
+      SQL``
+        .append(
+          `UPDATE ${tableName} SET ${assignments.join(', ')} FROM (VALUES `
+        )
+        .append(join(values))
+        .append(
+          `) AS v(${columns.map(
+            quote
+          )}) WHERE ${tableName}."${key}" = v."${key}"`
+        )
     )
   }
 
+  /**
+   * Load rows using COPY FROM STDIN, which is considerably faster than INSERT for big loads.
+   * Rows are streamed as CSV, so they can come from an async iterable without loading them all in memory.
+   * Dates are sent as ISO strings and objects and arrays as JSON
+   * @param tableName
+   * @param rows    - Rows to load, as an array or an (async) iterable
+   * @param columns - Columns to copy from each row
+   * @return Amount of rows copied
+   */
+  async copyFrom(
+    tableName: string,
+    rows: Iterable<QueryPart> | AsyncIterable<QueryPart>,
+    columns: string[]
+  ): Promise<number> {
+    const transaction = this.getTransaction()
+    const client = transaction
+      ? transaction.connection
+      : await this.pool.connect()
+
+    try {
+      const stream = client.query(
+        copyFrom(
+          `COPY ${tableName} (${columns.map(
+            quote
+          )}) FROM STDIN WITH (FORMAT csv)`
+        )
+      )
+      await promisify(pipeline)(
+        Readable.from(toCSVLines(rows, columns)),
+        stream
+      )
+
+      return stream.rowCount
+    } finally {
+      if (!transaction) client.release()
+    }
+  }
+
   /**
    * Update an object on the database.
    * @example
    * update('users', { name: 'New Name' } { id: 22 }) => UPDATE users SET "name"='New Name' WHERE "id"=22
    * @param tableName
    * @param changes    - An object describing the changes. The properties should be the column names and it's values the value to update.
-   * @param conditions - An object describing the WHERE clause. The properties should be the column names and it's values the condition value.
+   * @param conditions - An object describing the WHERE clause. See {@link postgres#toWhereStatement}
    */
   async update(
     tableName: string,
     changes: QueryPart,
-    conditions: QueryPart
+    conditions: Conditions
   ): Promise<any> {
     if (!changes) {
       throw new Error(
         `Tried to update ${tableName} without any values. Supply a changes object`
       )
     }
-    if (!conditions) {
+    if (!conditions || Object.keys(conditions).length === 0) {
       throw new Error(
         `Tried to update ${tableName} without a WHERE clause. Supply a conditions object`
       )
     }
 
-    const changeValues = Object.values(changes)
-    const conditionValues = Object.values(conditions)
-
-    const whereClauses = this.toAssignmentFields(
-      conditions,
-      changeValues.length
-    )
-
-    const values = changeValues.concat(conditionValues)
-
     return this.client.query(
-      `UPDATE ${tableName}
-      SET   ${this.toAssignmentFields(changes)}
-      WHERE ${whereClauses.join(' AND ')}`,
-      values
+      SQL``
+        .append(`UPDATE ${tableName} SET `)
+        .append(this.toAssignmentStatement(changes))
+        .append(' WHERE ')
+        .append(this.toWhereStatement(conditions))
     )
   }
 
   /**
    * Delete rows from the database
    * @param tableName
-   * @param conditions - An object describing the WHERE clause.
+   * @param conditions - An object describing the WHERE clause. See {@link postgres#toWhereStatement}
    */
-  delete(tableName: string, conditions: QueryPart): Promise<any> {
-    if (!conditions) {
+  delete(tableName: string, conditions: Conditions): Promise<any> {
+    if (!conditions || Object.keys(conditions).length === 0) {
       throw new Error(
-        `Tried to update ${tableName} without a WHERE clause. Supply a conditions object`
+        `Tried to delete from ${tableName} without a WHERE clause. Supply a conditions object`
       )
     }
 
-    const values = Object.values(conditions)
-
     return this.client.query(
-      `DELETE FROM ${tableName}
-      WHERE ${this.toAssignmentFields(conditions).join(' AND ')}`,
-      values
+      SQL``
+        .append(`DELETE FROM ${tableName} WHERE `)
+        .append(this.toWhereStatement(conditions))
     )
   }
 
@@ -271,6 +754,34 @@ export class Postgres {
     )
   }
 
+  /**
+   * Columns of a table, as described by information_schema
+   * @param tableName
+   * @return Rows from information_schema.columns. Empty if the table doesn't exist
+   */
+  getTableColumns(tableName: string): Promise<TableColumn[]> {
+    return this.query(
+      `SELECT column_name, udt_name, is_nullable, character_maximum_length
+        FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = $1
+        ORDER BY ordinal_position`,
+      [tableName]
+    )
+  }
+
+  /**
+   * Names of the indexes of a table, including the ones backing primary keys and unique constraints
+   * @param tableName
+   */
+  async getTableIndexNames(tableName: string): Promise<string[]> {
+    const rows = await this.query(
+      `SELECT indexname FROM pg_indexes
+        WHERE schemaname = current_schema() AND tablename = $1`,
+      [tableName]
+    )
+    return rows.map(row => row.indexname)
+  }
+
   /**
    * Truncates the table provided
    * @param  tableName
@@ -283,13 +794,38 @@ export class Postgres {
   /**
    *
    * @param onConflict - Targets for the ON CONFLICT clause and subsequent changes
-   * @param indexStart - Where to start the placeholder index for update values
    */
-  toOnConflictUpsert({ target, changes }: OnConflict, indexStart = 0) {
+  toOnConflictUpsert({ target, changes }: OnConflict): SQLStatement {
     return target.length > 0 && changes
-      ? `ON CONFLICT (${target}) DO
-        UPDATE SET ${this.toAssignmentFields(changes, indexStart)}`
-      : 'ON CONFLICT DO NOTHING'
+      ? SQL``
+          .append(`ON CONFLICT (${target}) DO UPDATE SET `)
+          .append(this.toAssignmentStatement(changes))
+      : SQL`ON CONFLICT DO NOTHING`
+  }
+
+  /**
+   * ON CONFLICT clause for multi-row inserts. Without changes, conflicting rows are updated with the values they tried to insert (using EXCLUDED)
+   * @param onConflict - Targets for the ON CONFLICT clause and subsequent changes
+   * @param columns    - Inserted columns
+   */
+  toBulkOnConflict({ target, changes }: OnConflict, columns: string[]) {
+    const updatedColumns = columns.filter(column => !target.includes(column))
+
+    if (target.length === 0 || (!changes && updatedColumns.length === 0)) {
+      return SQL`ON CONFLICT DO NOTHING`
+    }
+
+    const assignments = changes
+      ? this.toAssignmentStatement(changes)
+      : raw(
+          updatedColumns
+            .map(column => `"${column}" = EXCLUDED."${column}"`)
+            .join(', ')
+        )
+
+    return SQL``
+      .append(`ON CONFLICT (${target}) DO UPDATE SET `)
+      .append(assignments)
   }
 
   /**
@@ -316,6 +852,54 @@ export class Postgres {
     )
   }
 
+  /**
+   * From an map of { column1 => int, column2 => string } to a statement containing
+   *   "column1" = $1, "column2" = $2, (...)
+   * @param columns - Each column as a property of the object
+   */
+  toAssignmentStatement(columns: Column): SQLStatement {
+    return join(
+      Object.keys(columns).map(
+        column => SQL`${raw(`"${column}"`)} = ${columns[column]}`
+      )
+    )
+  }
+
+  /**
+   * From a conditions object to a statement for the WHERE clause. Each property is a column name and its value the condition to match.
+   * A plain value checks for equality (or IS NULL if it's null). An object lets you use operators:
+   * $eq, $ne, $gt, $gte, $lt, $lte, $in, $nin, $like, $ilike and $not.
+   * Conditions can be grouped using $or, $and and $not as keys. Every condition on the same level is joined with AND.
+   * @example
+   * toWhereStatement({ price: { $gte: 10 }, owner: { $in: ['0x1', '0x2'] }, $or: [{ estate_id: null }, { x: 1 }] })
+   * => "price" >= $1 AND "owner" IN ($2, $3) AND (("estate_id" IS NULL) OR ("x" = $4))
+   * @param conditions
+   * @return Statement with the conditions, or TRUE if there're none
+   */
+  toWhereStatement(conditions: Conditions): SQLStatement {
+    const statements: SQLStatement[] = []
+
+    for (const key of Object.keys(conditions)) {
+      const value = conditions[key]
+
+      switch (key) {
+        case '$or':
+          statements.push(this.toGroupStatement(value, ' OR ', 'FALSE'))
+          break
+        case '$and':
+          statements.push(this.toGroupStatement(value, ' AND ', 'TRUE'))
+          break
+        case '$not':
+          statements.push(SQL`NOT (${this.toWhereStatement(value)})`)
+          break
+        default:
+          statements.push(...this.toColumnConditions(key, value))
+      }
+    }
+
+    return statements.length > 0 ? join(statements, ' AND ') : SQL`TRUE`
+  }
+
   /**
    * From an map of { column1 => int, column2 => string } to an array containing
    *  ['$1', '$2', (...)]
@@ -348,42 +932,413 @@ export class Postgres {
   }
 
   /**
-   * Close db connection
+   * Close every client on the pools, waiting for the checked out ones to be released
    */
   async close() {
-    return this.client.end()
+    if (this.healthCheckInterval) {
+      clearInterval(this.healthCheckInterval)
+    }
+    await Promise.all(this.replicas.map(replica => replica.end()))
+    return this.pool.end()
   }
 
   private async _query(
     method: string,
     tableName: string,
-    conditions?: QueryPart,
+    conditions?: Conditions,
     orderBy?: QueryPart,
     extra: string = ''
   ): Promise<any[]> {
-    let values: any[] = []
-    let where = ''
-    let order = ''
+    const query = this.toSelectStatement(method, tableName, conditions, orderBy)
+    const result = await this.readClient.query(query.append(` ${extra}`))
+
+    return result.rows
+  }
+
+  private toSelectStatement(
+    method: string,
+    tableName: string,
+    conditions?: Conditions,
+    orderBy?: QueryPart
+  ): SQLStatement {
+    const query = SQL``.append(`${method} FROM ${tableName}`)
 
     if (conditions) {
-      values = Object.values(conditions)
-      where = `WHERE ${this.toAssignmentFields(conditions).join(' AND ')}`
+      query.append(' WHERE ').append(this.toWhereStatement(conditions))
     }
 
     if (orderBy) {
-      order = `ORDER BY ${this.getOrderValues(orderBy)}`
+      query.append(` ORDER BY ${this.getOrderValues(orderBy)}`)
     }
 
-    const result = await this.client.query(
-      `${method} FROM ${tableName} ${where} ${order} ${extra}`,
-      values
+    return query
+  }
+
+  private async *fetchBatches(
+    query: string | SQLStatement,
+    batchSize: number,
+    transaction: Transaction | undefined,
+    pool: pg.Pool,
+    context: QueryContext | undefined
+  ): AsyncIterableIterator<any[]> {
+    const connection = transaction
+      ? transaction.connection
+      : await pool.connect()
+    const client = this.instrument(connection, context)
+    const name = `cursor_${++cursorCount}`
+    let failed = false
+
+    try {
+      if (!transaction) {
+        await client.query('BEGIN')
+      }
+      await client.query(
+        SQL``.append(`DECLARE ${name} NO SCROLL CURSOR FOR `).append(query)
+      )
+
+      while (true) {
+        const result = await client.query(`FETCH ${batchSize} FROM ${name}`)
+        if (result.rows.length > 0) {
+          yield result.rows
+        }
+        if (result.rows.length < batchSize) break
+      }
+    } catch (error) {
+      failed = true
+      throw error
+    } finally {
+      if (!transaction) {
+        let endError: Error | undefined
+        try {
+          await client.query(failed ? 'ROLLBACK' : 'COMMIT')
+        } catch (error) {
+          endError = error
+          // If it was rolling back, the error that made it fail is already being thrown
+          if (!failed) throw error
+        } finally {
+          // A connection that can't end its transaction is broken, so passing the error destroys it instead of returning it to the pool
+          connection.release(endError)
+        }
+      } else if (!failed) {
+        await client.query(`CLOSE ${name}`)
+      }
+    }
+  }
+
+  /**
+   * Wrap the queryable so its queries emit events to the listeners and its errors are mapped to HTTP errors (see {@link errors#toHttpError})
+   * @param queryable
+   * @param [context] - Defaults to the one on the current async context
+   */
+  protected instrument(
+    queryable: Queryable,
+    context: QueryContext | undefined = queryContextStorage.getStore()
+  ): Queryable {
+    return {
+      query: (queryString, values) =>
+        this.runQuery(queryable, queryString, values, context)
+    }
+  }
+
+  private async runQuery(
+    queryable: Queryable,
+    queryString: string | QueryArgument,
+    values: any[] | undefined,
+    context: QueryContext = {}
+  ) {
+    const start = process.hrtime()
+    const requestContext = getRequestContext()
+    const emit = (rowCount: number | null, error?: Error) => {
+      const [seconds, nanoseconds] = process.hrtime(start)
+      const event = {
+        text: typeof queryString === 'string' ? queryString : queryString.text,
+        values:
+          values || (typeof queryString === 'string' ? [] : queryString.values),
+        duration: seconds * 1000 + nanoseconds / 1e6,
+        rowCount,
+        model: context.model,
+        requestId: requestContext ? requestContext.requestId : undefined,
+        error
+      }
+
+      for (const listener of this.queryListeners) {
+        try {
+          listener(event)
+        } catch (listenerError) {
+          // Listeners are for instrumentation only, they can't make the query fail
+        }
+      }
+    }
+
+    try {
+      const result = await queryable.query(queryString, values)
+      if (this.queryListeners.length > 0) emit(result.rowCount)
+      return result
+    } catch (error) {
+      if (this.queryListeners.length > 0) emit(null, error)
+      throw toHttpError(error)
+    }
+  }
+
+  private async runCommitCallback(callback: () => any): Promise<void> {
+    try {
+      await callback()
+    } catch (error) {
+      for (const listener of this.commitErrorListeners) {
+        try {
+          listener(error)
+        } catch (listenerError) {
+          // Nothing else to report it to
+        }
+      }
+    }
+  }
+
+  private toGroupStatement(
+    group: Conditions[],
+    separator: string,
+    emptyValue: string
+  ): SQLStatement {
+    if (group.length === 0) return raw(emptyValue)
+
+    const statements = group.map(
+      conditions => SQL`(${this.toWhereStatement(conditions)})`
     )
+    return SQL`(${join(statements, separator)})`
+  }
 
-    return result.rows
+  private toColumnConditions(column: string, value: any): SQLStatement[] {
+    if (!this.isOperatorObject(value)) {
+      return [this.toOperatorStatement(column, '$eq', value)]
+    }
+
+    return Object.keys(value).map(operator =>
+      this.toOperatorStatement(column, operator, value[operator])
+    )
+  }
+
+  private toOperatorStatement(
+    column: string,
+    operator: string,
+    value: any
+  ): SQLStatement {
+    const name = raw(this.quoteIdentifier(column))
+
+    switch (operator) {
+      case '$eq':
+        return value === null ? SQL`${name} IS NULL` : SQL`${name} = ${value}`
+      case '$ne':
+        return value === null
+          ? SQL`${name} IS NOT NULL`
+          : SQL`${name} <> ${value}`
+      case '$gt':
+        return SQL`${name} > ${value}`
+      case '$gte':
+        return SQL`${name} >= ${value}`
+      case '$lt':
+        return SQL`${name} < ${value}`
+      case '$lte':
+        return SQL`${name} <= ${value}`
+      case '$like':
+        return SQL`${name} LIKE ${value}`
+      case '$ilike':
+        return SQL`${name} ILIKE ${value}`
+      case '$in':
+        return value.length > 0
+          ? SQL`${name} IN (${join(value.map(item => SQL`${item}`))})`
+          : SQL`FALSE`
+      case '$nin':
+        return value.length > 0
+          ? SQL`${name} NOT IN (${join(value.map(item => SQL`${item}`))})`
+          : SQL`TRUE`
+      case '$not':
+        return SQL`NOT (${join(
+          this.toColumnConditions(column, value),
+          ' AND '
+        )})`
+      default:
+        throw new Error(`Unknown operator ${operator} for column ${column}`)
+    }
+  }
+
+  /**
+   * Quote each part of a column name, so `parcels.x` becomes `"parcels"."x"`
+   */
+  private quoteIdentifier(column: string): string {
+    return column
+      .split('.')
+      .map(part => `"${part}"`)
+      .join('.')
+  }
+
+  /**
+   * Plain objects where every key is an operator. Anything else (Dates, arrays, JSON values) is compared for equality
+   */
+  private isOperatorObject(value: any): boolean {
+    if (!value || value.constructor !== Object) return false
+
+    const keys = Object.keys(value)
+    return keys.length > 0 && keys.every(key => key.startsWith('$'))
+  }
+}
+
+/**
+ * Every column found on a list of rows, in the order they appear
+ */
+function getColumnNames(rows: QueryPart[]): string[] {
+  const columns = new Set<string>()
+
+  for (const row of rows) {
+    Object.keys(row).forEach(column => columns.add(column))
+  }
+
+  return Array.from(columns)
+}
+
+async function* toRows(
+  batches: AsyncIterable<any[]>
+): AsyncIterableIterator<any> {
+  for await (const rows of batches) {
+    yield* rows
+  }
+}
+
+function createPool(
+  connectionString: string | undefined,
+  options: PoolOptions
+): pg.Pool {
+  const {
+    min = 0,
+    max = DEFAULT_POOL_SIZE,
+    idleTimeoutMillis,
+    acquireTimeoutMillis
+  } = options
+
+  if (!Number.isInteger(min) || min < 0 || min > max) {
+    throw new Error(
+      `min should be an integer from 0 to max (${max}), got ${min}`
+    )
+  }
+
+  const pool = new pg.Pool({
+    connectionString,
+    max,
+    idleTimeoutMillis,
+    connectionTimeoutMillis: acquireTimeoutMillis
+  })
+  // pg-pool has no minimum size, so the clients it closes for being idle are replaced instead
+  if (min > 0) {
+    pool.on('remove', () => fillPool(pool, min))
+  }
+
+  return pool
+}
+
+function fillPool(pool: pg.Pool & { ending?: boolean }, min: number): void {
+  if (pool.ending) return
+
+  for (let count = pool.totalCount; count < min; count++) {
+    pool.connect().then(
+      client => client.release(),
+      () => undefined
+    )
+  }
+}
+
+function quote(column: string): string {
+  return `"${column}"`
+}
+
+async function* toCSVLines(
+  rows: Iterable<QueryPart> | AsyncIterable<QueryPart>,
+  columns: string[]
+) {
+  for await (const row of rows) {
+    yield columns.map(column => toCSVValue(row[column])).join(',') + '\n'
+  }
+}
+
+function toCSVValue(value: any): string {
+  if (value === null || value === undefined) return ''
+
+  let text: string
+  if (value instanceof Date) {
+    text = value.toISOString()
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value)
+  } else {
+    text = String(value)
+  }
+
+  return `"${text.replace(/"/g, '""')}"`
+}
+
+/**
+ * Postgres client bound to a single connection with an open transaction. Created by {@link postgres#transaction}
+ */
+export class Transaction extends Postgres {
+  db: Postgres
+  connection: pg.PoolClient
+
+  commitCallbacks: (() => any)[] = []
+
+  private savepoints: number = 0
+
+  constructor(db: Postgres, connection: pg.PoolClient) {
+    super()
+    this.db = db
+    this.pool = db.pool
+    this.connection = connection
+    this.queryListeners = db.queryListeners
+    this.commitErrorListeners = db.commitErrorListeners
+  }
+
+  get client(): Queryable {
+    return this.instrument(this.connection)
+  }
+
+  /**
+   * Run the callback inside a savepoint. It rolls back to it if the callback throws, leaving the outer transaction untouched
+   * @param callback - Receives this same transaction
+   * @return The value returned by the callback
+   */
+  async transaction<T>(
+    callback: (transaction: Transaction) => Promise<T>
+  ): Promise<T> {
+    const savepoint = `savepoint_${++this.savepoints}`
+    const commitCallbackCount = this.commitCallbacks.length
+
+    await this.connection.query(`SAVEPOINT ${savepoint}`)
+    try {
+      const result = await callback(this)
+      await this.connection.query(`RELEASE SAVEPOINT ${savepoint}`)
+
+      return result
+    } catch (error) {
+      // If it can't roll back to the savepoint the outer transaction is broken too, and it'll fail on its own. Keep the error that caused it
+      await this.connection
+        .query(`ROLLBACK TO SAVEPOINT ${savepoint}`)
+        .catch(() => undefined)
+      // The writes of the savepoint are gone, so are their callbacks
+      this.commitCallbacks.splice(commitCallbackCount)
+      throw error
+    }
+  }
+
+  /**
+   * Queue the callback to run after the outermost transaction commits
+   * @param callback
+   */
+  async afterCommit(callback: () => any): Promise<void> {
+    this.commitCallbacks.push(callback)
+  }
+
+  getTransaction(): Transaction {
+    return this
   }
 }
 
 /**
- * Client to query Postgres. Uses `pg` behind the scenes. Check {@link https://node-postgres.com/} for more info.
+ * Client to query Postgres. Uses a `pg` pool behind the scenes. Check {@link https://node-postgres.com/} for more info.
  */
 export const postgres = new Postgres()
@@ -0,0 +1,226 @@
+import { SQL, SQLStatement, join, raw } from '../sql'
+import { Postgres } from './postgres'
+import { Conditions, OrderClause } from './types'
+
+export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL'
+export type OrderDirection = 'ASC' | 'DESC'
+export type Scope<U> = (builder: QueryBuilder<U>) => QueryBuilder<U>
+
+/**
+ * Chainable SELECT builder. Each method mutates the builder and returns it, use {@link QueryBuilder#clone} to branch off.
+ * Values are always sent as placeholders, numbered in the order they appear on the final statement.
+ * @example
+ * new QueryBuilder(postgres, 'parcels')
+ *   .select('parcels.*', 'estates.name')
+ *   .leftJoin('estates', 'estates.id = parcels.estate_id')
+ *   .where({ 'parcels.owner': { $in: ['0x1', '0x2'] } })
+ *   .orderBy('parcels.x', 'DESC')
+ *   .limit(20)
+ *   .run()
+ */
+export class QueryBuilder<U = any> {
+  db: Postgres
+  tableName: string
+
+  private columns: SQLStatement[] = []
+  private joins: SQLStatement[] = []
+  private wheres: SQLStatement[] = []
+  private groups: string[] = []
+  private havings: SQLStatement[] = []
+  private orders: string[] = []
+  private limitValue: number | undefined
+  private offsetValue: number | undefined
+
+  constructor(db: Postgres, tableName: string) {
+    this.db = db
+    this.tableName = tableName
+  }
+
+  /**
+   * Columns to select. Strings are used as is, so they can contain expressions like `COUNT(*) AS count`. Defaults to `*`
+   * @param columns
+   */
+  select(...columns: (string | SQLStatement)[]): QueryBuilder<U> {
+    this.columns.push(...columns.map(toStatement))
+    return this
+  }
+
+  /**
+   * Add a WHERE condition. Multiple calls are joined with AND
+   * @param condition - A conditions object (see {@link postgres#toWhereStatement}) or a statement
+   */
+  where(condition: Conditions<U> | SQLStatement): QueryBuilder<U> {
+    this.wheres.push(this.toConditionStatement(condition))
+    return this
+  }
+
+  /**
+   * Join another table
+   * @param tableName
+   * @param on            - Join condition
+   * @param [type=INNER]
+   */
+  join(
+    tableName: string,
+    on: string | SQLStatement,
+    type: JoinType = 'INNER'
+  ): QueryBuilder<U> {
+    this.joins.push(SQL``.append(`${type} JOIN ${tableName} ON `).append(on))
+    return this
+  }
+
+  /**
+   * Shorthand for a LEFT join. See {@link QueryBuilder#join}
+   */
+  leftJoin(tableName: string, on: string | SQLStatement): QueryBuilder<U> {
+    return this.join(tableName, on, 'LEFT')
+  }
+
+  /**
+   * @param columns - Columns or expressions to group by
+   */
+  groupBy(...columns: string[]): QueryBuilder<U> {
+    this.groups.push(...columns)
+    return this
+  }
+
+  /**
+   * Add a HAVING condition. Multiple calls are joined with AND
+   * @param condition - A conditions object or a statement
+   */
+  having(condition: Conditions | SQLStatement): QueryBuilder<U> {
+    this.havings.push(this.toConditionStatement(condition))
+    return this
+  }
+
+  /**
+   * Add an ORDER BY column
+   * @param order           - Column name or an object describing the order, like the one {@link Model.find} receives
+   * @param [direction=ASC] - Only used if the order is a column name
+   */
+  orderBy(
+    order: string | OrderClause,
+    direction: OrderDirection = 'ASC'
+  ): QueryBuilder<U> {
+    const orders =
+      typeof order === 'string'
+        ? [`${order} ${direction}`]
+        : this.db.getOrderValues(order)
+
+    this.orders.push(...orders)
+    return this
+  }
+
+  limit(limit: number): QueryBuilder<U> {
+    this.limitValue = limit
+    return this
+  }
+
+  offset(offset: number): QueryBuilder<U> {
+    this.offsetValue = offset
+    return this
+  }
+
+  /**
+   * Apply a reusable set of modifications to the builder
+   * @example
+   * const owned = (owner: string) => (query: QueryBuilder) => query.where({ owner })
+   * Parcel.query().scope(owned('0x1')).limit(10)
+   * @param scopes
+   */
+  scope(...scopes: Scope<U>[]): QueryBuilder<U> {
+    return scopes.reduce<QueryBuilder<U>>((builder, fn) => fn(builder), this)
+  }
+
+  /**
+   * Returns a new builder with the same state
+   */
+  clone(): QueryBuilder<U> {
+    const builder = new QueryBuilder<U>(this.db, this.tableName)
+
+    builder.columns = [...this.columns]
+    builder.joins = [...this.joins]
+    builder.wheres = [...this.wheres]
+    builder.groups = [...this.groups]
+    builder.havings = [...this.havings]
+    builder.orders = [...this.orders]
+    builder.limitValue = this.limitValue
+    builder.offsetValue = this.offsetValue
+
+    return builder
+  }
+
+  /**
+   * Build the final statement
+   */
+  toStatement(): SQLStatement {
+    const columns = this.columns.length > 0 ? this.columns : [raw('*')]
+    const query = SQL`SELECT `
+      .append(join(columns))
+      .append(` FROM ${this.tableName}`)
+
+    for (const statement of this.joins) {
+      query.append(' ').append(statement)
+    }
+    if (this.wheres.length > 0) {
+      query.append(' WHERE ').append(joinConditions(this.wheres))
+    }
+    if (this.groups.length > 0) {
+      query.append(` GROUP BY ${this.groups.join(', ')}`)
+    }
+    if (this.havings.length > 0) {
+      query.append(' HAVING ').append(joinConditions(this.havings))
+    }
+    if (this.orders.length > 0) {
+      query.append(` ORDER BY ${this.orders.join(', ')}`)
+    }
+    if (this.limitValue !== undefined) {
+      query.append(SQL` LIMIT ${this.limitValue}`)
+    }
+    if (this.offsetValue !== undefined) {
+      query.append(SQL` OFFSET ${this.offsetValue}`)
+    }
+
+    return query
+  }
+
+  /**
+   * Run the query through the db client
+   * @return Array containing the matched rows
+   */
+  run(): Promise<U[]> {
+    return this.db.query(this.toStatement())
+  }
+
+  /**
+   * Run the query limiting it to one row
+   * @return The first row, if any
+   */
+  async first(): Promise<U | undefined> {
+    const rows = await this.clone()
+      .limit(1)
+      .run()
+    return rows[0]
+  }
+
+  private toConditionStatement(
+    condition: Conditions | SQLStatement
+  ): SQLStatement {
+    return condition instanceof SQLStatement
+      ? condition
+      : this.db.toWhereStatement(condition)
+  }
+}
+
+function toStatement(value: string | SQLStatement): SQLStatement {
+  return value instanceof SQLStatement ? value : raw(value)
+}
+
+function joinConditions(statements: SQLStatement[]): SQLStatement {
+  return statements.length === 1
+    ? statements[0]
+    : join(
+        statements.map(statement => SQL`(${statement})`),
+        ' AND '
+      )
+}
@@ -0,0 +1,239 @@
+import {
+  ColumnDefinition,
+  ColumnDefinitions,
+  IndexDefinition,
+  SchemaDrift,
+  TableColumn
+} from './types'
+
+/**
+ * Aliases of each type to the name Postgres uses on information_schema.columns.udt_name
+ */
+const TYPE_ALIASES: Record<string, string> = {
+  int: 'int4',
+  integer: 'int4',
+  serial: 'int4',
+  bigint: 'int8',
+  bigserial: 'int8',
+  smallint: 'int2',
+  smallserial: 'int2',
+  boolean: 'bool',
+  'character varying': 'varchar',
+  character: 'bpchar',
+  char: 'bpchar',
+  'timestamp without time zone': 'timestamp',
+  'timestamp with time zone': 'timestamptz',
+  'time without time zone': 'time',
+  'time with time zone': 'timetz',
+  decimal: 'numeric',
+  real: 'float4',
+  'double precision': 'float8',
+  float: 'float8'
+}
+
+/**
+ * Build the CREATE TABLE statement for the column definitions
+ * @example
+ * toCreateTableSQL('users', { id: { type: 'serial' }, name: { type: 'varchar(42)', default: "'Guest'" } }, 'id')
+ * => CREATE TABLE IF NOT EXISTS "users" ("id" serial NOT NULL, "name" varchar(42) DEFAULT 'Guest', PRIMARY KEY ("id"))
+ * @param tableName
+ * @param columns
+ * @param [primaryKey]
+ */
+export function toCreateTableSQL(
+  tableName: string,
+  columns: ColumnDefinitions,
+  primaryKey?: string
+): string {
+  const rows = Object.keys(columns).map(name =>
+    toColumnSQL(name, columns[name], name === primaryKey)
+  )
+
+  if (primaryKey) {
+    rows.push(`PRIMARY KEY ("${primaryKey}")`)
+  }
+
+  return `CREATE TABLE IF NOT EXISTS "${tableName}" (
+  ${rows.join(',\n  ')}
+)`
+}
+
+/**
+ * Build the CREATE INDEX statement for an index. See {@link schema#getIndexDefinitions}
+ * @param tableName
+ * @param index
+ */
+export function toCreateIndexSQL(
+  tableName: string,
+  index: IndexDefinition
+): string {
+  const unique = index.unique ? 'UNIQUE ' : ''
+  const columns = index.columns.map(column => `"${column}"`).join(', ')
+
+  return `CREATE ${unique}INDEX IF NOT EXISTS "${getIndexName(
+    tableName,
+    index
+  )}" ON "${tableName}" (${columns})`
+}
+
+/**
+ * Merge the indexes declared on each column (with `index: true`) with the table level ones
+ * @param columns
+ * @param [indexes]
+ */
+export function getIndexDefinitions(
+  columns: ColumnDefinitions,
+  indexes: IndexDefinition[] = []
+): IndexDefinition[] {
+  const columnIndexes = Object.keys(columns)
+    .filter(name => columns[name].index)
+    .map(name => ({ columns: [name] }))
+
+  return [...columnIndexes, ...indexes]
+}
+
+/**
+ * Index name, either the declared one or one derived from the table and columns
+ * @param tableName
+ * @param index
+ */
+export function getIndexName(tableName: string, index: IndexDefinition) {
+  return index.name || `${tableName}_${index.columns.join('_')}_idx`
+}
+
+/**
+ * Compare the column definitions with the columns and indexes found on the database
+ * @param definition
+ * @param definition.tableName
+ * @param definition.columns
+ * @param definition.indexes    - Every index, see {@link schema#getIndexDefinitions}
+ * @param [definition.primaryKey]
+ * @param tableColumns          - Rows from information_schema.columns
+ * @param indexNames            - Names of the indexes found on the table
+ * @return Every difference found
+ */
+export function getSchemaDrift(
+  definition: {
+    tableName: string
+    columns: ColumnDefinitions
+    indexes: IndexDefinition[]
+    primaryKey?: string
+  },
+  tableColumns: TableColumn[],
+  indexNames: string[]
+): SchemaDrift[] {
+  const { tableName, columns, indexes, primaryKey } = definition
+  const drift: SchemaDrift[] = []
+  const found = new Map(
+    tableColumns.map(column => [column.column_name, column])
+  )
+
+  for (const name of Object.keys(columns)) {
+    const column = found.get(name)
+    const expectedType = normalizeType(columns[name].type)
+
+    if (!column) {
+      drift.push({ column: name, issue: 'missing' })
+      continue
+    }
+
+    const actualType = {
+      name: column.udt_name,
+      length: column.character_maximum_length
+    }
+    if (
+      expectedType.name !== actualType.name ||
+      (expectedType.length !== null &&
+        expectedType.length !== actualType.length)
+    ) {
+      drift.push({
+        column: name,
+        issue: 'type',
+        expected: formatType(expectedType),
+        actual: formatType(actualType)
+      })
+    }
+
+    const nullable = isNullable(columns[name], name === primaryKey)
+    if (nullable !== (column.is_nullable === 'YES')) {
+      drift.push({
+        column: name,
+        issue: 'nullable',
+        expected: nullable ? 'NULL' : 'NOT NULL',
+        actual: column.is_nullable === 'YES' ? 'NULL' : 'NOT NULL'
+      })
+    }
+  }
+
+  for (const name of found.keys()) {
+    if (!columns[name]) {
+      drift.push({ column: name, issue: 'unexpected' })
+    }
+  }
+
+  for (const index of indexes) {
+    const name = getIndexName(tableName, index)
+    if (!indexNames.includes(name)) {
+      drift.push({ index: name, issue: 'missing' })
+    }
+  }
+
+  return drift
+}
+
+/**
+ * Normalize a type to the name Postgres reports on information_schema.columns.udt_name, keeping its length, if any
+ * @example
+ * normalizeType('character varying(42)') => { name: 'varchar', length: 42 }
+ * normalizeType('integer[]') => { name: '_int4', length: null }
+ * @param type
+ */
+export function normalizeType(
+  type: string
+): { name: string; length: number | null } {
+  const match = type
+    .trim()
+    .toLowerCase()
+    .match(/^([a-z0-9_ ]+?)\s*(?:\((\d+)(?:\s*,\s*\d+)?\))?\s*(\[\])?$/)
+
+  if (!match) {
+    return { name: type, length: null }
+  }
+
+  const [, baseType, length, isArray] = match
+  const name = TYPE_ALIASES[baseType] || baseType
+  const hasLength = ['varchar', 'bpchar'].includes(name) && length
+
+  return {
+    name: isArray ? `_${name}` : name,
+    length: hasLength && !isArray ? parseInt(length, 10) : null
+  }
+}
+
+function toColumnSQL(
+  name: string,
+  column: ColumnDefinition,
+  isPrimaryKey: boolean
+): string {
+  const parts = [`"${name}"`, column.type]
+
+  if (!isNullable(column, isPrimaryKey)) {
+    parts.push('NOT NULL')
+  }
+  if (column.default !== undefined) {
+    parts.push(`DEFAULT ${column.default}`)
+  }
+  if (column.unique) {
+    parts.push('UNIQUE')
+  }
+
+  return parts.join(' ')
+}
+
+function isNullable(column: ColumnDefinition, isPrimaryKey: boolean) {
+  return !isPrimaryKey && column.nullable !== false
+}
+
+function formatType(type: { name: string; length: number | null }) {
+  return type.length === null ? type.name : `${type.name}(${type.length})`
+}
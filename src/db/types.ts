@@ -1,3 +1,5 @@
+import { QueryResult } from 'pg'
+
 export interface QueryArgument {
   text: string
   values: any[]
@@ -16,3 +18,94 @@ export interface OnConflict<U extends QueryPart = any, C = Partial<U>> {
   changes?: C
 }
 export type PrimaryKey = string | number
+export interface PoolOptions {
+  min?: number
+  max?: number
+  idleTimeoutMillis?: number
+  acquireTimeoutMillis?: number
+  replicas?: string[]
+  healthCheckIntervalMillis?: number
+}
+export interface PoolStats {
+  total: number
+  idle: number
+  waiting: number
+}
+export interface Queryable {
+  query(
+    queryString: string | QueryArgument,
+    values?: any[]
+  ): Promise<QueryResult>
+}
+export interface Operators<V = any> {
+  $eq?: V | null
+  $ne?: V | null
+  $gt?: V
+  $gte?: V
+  $lt?: V
+  $lte?: V
+  $in?: V[]
+  $nin?: V[]
+  $like?: string
+  $ilike?: string
+  $not?: Operators<V>
+}
+export type Condition<V = any> = V | null | Operators<V>
+export type Conditions<U extends QueryPart = any> = {
+  [K in keyof U]?: Condition<U[K]>
+} & {
+  $or?: Conditions<U>[]
+  $and?: Conditions<U>[]
+  $not?: Conditions<U>
+}
+export interface ColumnDefinition {
+  type: string
+  nullable?: boolean
+  default?: string | number | boolean
+  unique?: boolean
+  index?: boolean
+}
+export interface ColumnDefinitions {
+  [columnName: string]: ColumnDefinition
+}
+export interface IndexDefinition {
+  columns: string[]
+  name?: string
+  unique?: boolean
+}
+export interface TableColumn {
+  column_name: string
+  udt_name: string
+  is_nullable: 'YES' | 'NO'
+  character_maximum_length: number | null
+}
+export interface SchemaDrift {
+  column?: string
+  index?: string
+  issue: 'missing' | 'unexpected' | 'type' | 'nullable'
+  expected?: string
+  actual?: string
+}
+export interface FindOptions {
+  extra?: string
+  include?: string[]
+}
+export interface StreamOptions {
+  batchSize?: number
+  include?: string[]
+}
+export type DeletedScope = 'exclude' | 'include' | 'only'
+export interface QueryContext {
+  model?: string
+}
+export interface QueryEvent {
+  text: string
+  values: any[]
+  duration: number
+  rowCount: number | null
+  model?: string
+  requestId?: string
+  error?: Error
+}
+export type QueryListener = (event: QueryEvent) => void
+export type CommitErrorListener = (error: Error) => void
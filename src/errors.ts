@@ -0,0 +1,101 @@
+/**
+ * Error with the HTTP status code and data {@link server#handleRequest} should respond with.
+ * The message and data are sent to the client, so they shouldn't include internal details. Keep those on `cause`
+ */
+export class HttpError extends Error {
+  statusCode: number
+  data: any
+  cause?: Error
+
+  /**
+   * @param statusCode
+   * @param message    - Sent to the client as `error`
+   * @param [data]     - Sent to the client as `data`
+   * @param [cause]    - Original error, only for logging
+   */
+  constructor(
+    statusCode: number,
+    message: string,
+    data: any = {},
+    cause?: Error
+  ) {
+    super(message)
+    this.name = 'HttpError'
+    this.statusCode = statusCode
+    this.data = data
+    this.cause = cause
+  }
+}
+
+export class BadRequestError extends HttpError {
+  constructor(message: string = 'Bad request', data?: any, cause?: Error) {
+    super(400, message, data, cause)
+    this.name = 'BadRequestError'
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message: string = 'Unauthorized', data?: any, cause?: Error) {
+    super(401, message, data, cause)
+    this.name = 'UnauthorizedError'
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message: string = 'Forbidden', data?: any, cause?: Error) {
+    super(403, message, data, cause)
+    this.name = 'ForbiddenError'
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message: string = 'Not found', data?: any, cause?: Error) {
+    super(404, message, data, cause)
+    this.name = 'NotFoundError'
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message: string = 'Conflict', data?: any, cause?: Error) {
+    super(409, message, data, cause)
+    this.name = 'ConflictError'
+  }
+}
+
+/**
+ * Thrown when updating a versioned row that was changed since it was read, see {@link Model.versioned}.
+ * It's a {@link ConflictError}, so {@link server#handleRequest} sends it to the client with a 409 status
+ */
+export class StaleRecordError extends ConflictError {
+  data: { tableName: string; version: number }
+
+  constructor(tableName: string, version: number) {
+    super(
+      `The row on ${tableName} was modified after version ${version} was read. Reload it and try again`,
+      { tableName, version }
+    )
+    this.name = 'StaleRecordError'
+  }
+}
+
+export class UnprocessableError extends HttpError {
+  constructor(
+    message: string = 'Unprocessable entity',
+    data?: any,
+    cause?: Error
+  ) {
+    super(422, message, data, cause)
+    this.name = 'UnprocessableError'
+  }
+}
+
+export class TooManyRequestsError extends HttpError {
+  constructor(
+    message: string = 'Too many requests',
+    data?: any,
+    cause?: Error
+  ) {
+    super(429, message, data, cause)
+    this.name = 'TooManyRequestsError'
+  }
+}
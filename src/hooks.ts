@@ -0,0 +1,100 @@
+import { Postgres } from './db/postgres'
+import { Conditions } from './db/types'
+
+export interface HookPayloads<U = any> {
+  beforeCreate: { row: U }
+  afterCreate: { row: U; result: any }
+  beforeUpdate: { changes: Partial<U>; conditions: Conditions<U> }
+  afterUpdate: { changes: Partial<U>; conditions: Conditions<U>; result: any }
+  beforeDelete: { conditions: Conditions<U> }
+  afterDelete: { conditions: Conditions<U>; result: any }
+  afterFind: { rows: U[] }
+}
+
+export type HookName = keyof HookPayloads
+
+/**
+ * Hooks running after a write. They get the payload of the hook that ran before it, along with the `result` of the write
+ */
+export type AfterWriteHookName = 'afterCreate' | 'afterUpdate' | 'afterDelete'
+
+/**
+ * Model class running the hook
+ */
+export interface HookModel extends Function {
+  tableName: string
+  primaryKey: string
+}
+
+/**
+ * Arguments each hook receives. Hooks can modify the objects on the payload (for example the `row` on beforeCreate) to change what's written or returned.
+ * `db` is the client the operation is using, which is a transaction for write hooks
+ */
+export type HookArgs<N extends HookName, U = any> = HookPayloads<U>[N] & {
+  db: Postgres
+  model: HookModel
+}
+
+export type Hook<N extends HookName = any, U = any> = (
+  args: HookArgs<N, U>
+) => void | Promise<void>
+
+const registry = new Map<HookModel, Map<HookName, Hook[]>>()
+
+/**
+ * Register a hook for a Model. It'll run after the ones declared statically on the class
+ * @param model
+ * @param name
+ * @param hook
+ * @return A function that removes the hook
+ */
+export function addHook<N extends HookName>(
+  model: HookModel,
+  name: N,
+  hook: Hook<N>
+): () => void {
+  const hooks = registry.get(model) || new Map<HookName, Hook[]>()
+  const list = hooks.get(name) || []
+
+  hooks.set(name, [...list, hook])
+  registry.set(model, hooks)
+
+  return () => {
+    const current = hooks.get(name) || []
+    hooks.set(
+      name,
+      current.filter(registered => registered !== hook)
+    )
+  }
+}
+
+/**
+ * Get every hook for a Model, including the ones from its parent classes, in the order they should run.
+ * For each class, the static method named after the hook runs first, then the registered ones
+ * @param model
+ * @param name
+ */
+export function getHooks<N extends HookName>(
+  model: HookModel,
+  name: N
+): Hook<N>[] {
+  const hooks: Hook<N>[] = []
+  let current: any = model
+
+  while (current && current !== Function.prototype) {
+    const own: Hook<N>[] = []
+
+    if (Object.prototype.hasOwnProperty.call(current, name)) {
+      own.push(current[name].bind(model))
+    }
+    const registered = registry.get(current)
+    if (registered) {
+      own.push(...(registered.get(name) || []))
+    }
+
+    hooks.unshift(...own)
+    current = Object.getPrototypeOf(current)
+  }
+
+  return hooks
+}
@@ -1,9 +1,17 @@
 import * as server from './server'
 import * as cli from './cli'
 import * as db from './db'
+import * as migrations from './migrations'
 
 export { Model } from './Model'
 export * from './sql'
+export * from './cache'
 export * from './db/types'
+export * from './errors'
+export * from './hooks'
+export * from './pagination'
+export * from './relations'
+export * from './requestContext'
+export * from './validation'
 
-export { cli, db, server }
+export { cli, db, migrations, server }
@@ -0,0 +1,325 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { Program } from '../cli'
+import { Postgres } from '../db/postgres'
+
+export interface Migration {
+  up: (db: Postgres) => Promise<any>
+  down: (db: Postgres) => Promise<any>
+}
+
+export interface MigrationStatus {
+  name: string
+  executedAt?: Date
+}
+
+export interface MigratorOptions {
+  directory: string
+  tableName?: string
+  lockId?: number
+  extension?: 'ts' | 'js'
+}
+
+const MIGRATION_FILE_REGEX = /^\d{14}_[\w-]+\.(js|ts)$/
+
+const TEMPLATES = {
+  ts: `import { Postgres } from 'decentraland-server/dist/db'
+
+export async function up(db: Postgres) {}
+
+export async function down(db: Postgres) {}
+`,
+  js: `exports.up = async function(db) {}
+
+exports.down = async function(db) {}
+`
+}
+
+/**
+ * Runs timestamped migration files found on a directory, keeping track of the executed ones on a table.
+ * Each migration file should export an `up` and a `down` async function, which receive the db client.
+ * Every migration runs inside its own transaction and a Postgres advisory lock prevents two processes from migrating at the same time.
+ * It also implements `addCommands`, so it can be supplied to {@link cli#runProgram}
+ */
+export class Migrator {
+  db: Postgres
+  directory: string
+  tableName: string
+  lockId: number
+  extension: 'ts' | 'js'
+
+  /**
+   * @param db
+   * @param options
+   * @param options.directory                   - Where the migration files live
+   * @param [options.tableName=schema_migrations] - Table used to track the executed migrations
+   * @param [options.lockId]                    - Key for the advisory lock
+   * @param [options.extension=ts]              - Extension used when creating new migration files
+   */
+  constructor(db: Postgres, options: MigratorOptions) {
+    this.db = db
+    this.directory = options.directory
+    this.tableName = options.tableName || 'schema_migrations'
+    this.lockId = options.lockId || 72707369
+    this.extension = options.extension || 'ts'
+  }
+
+  /**
+   * Run the pending migrations, oldest first
+   * @param [count] - Max amount of migrations to run. Runs every pending migration if empty
+   * @return Names of the executed migrations
+   * @throws {Error} If count isn't a positive integer
+   */
+  async up(count?: number): Promise<string[]> {
+    if (count !== undefined) assertCount(count)
+
+    return this.withLock(async () => {
+      const executed = await this.getExecuted()
+      const pending = this.getMigrationNames()
+        .filter(name => !executed.has(name))
+        .slice(0, count)
+
+      for (const name of pending) {
+        const migration = this.load(name)
+
+        await this.db.transaction(async tx => {
+          await migration.up(tx)
+          await tx.insert(this.tableName, { name, executed_at: new Date() })
+        })
+      }
+
+      return pending
+    })
+  }
+
+  /**
+   * Revert the latest executed migrations, newest first
+   * @param [count=1] - Amount of migrations to revert
+   * @return Names of the reverted migrations
+   * @throws {Error} If count isn't a positive integer
+   */
+  async down(count: number = 1): Promise<string[]> {
+    assertCount(count)
+
+    return this.withLock(async () => {
+      const executed = Array.from((await this.getExecuted()).keys())
+      const reverting = executed.reverse().slice(0, count)
+
+      for (const name of reverting) {
+        const migration = this.load(name)
+
+        await this.db.transaction(async tx => {
+          await migration.down(tx)
+          await tx.delete(this.tableName, { name })
+        })
+      }
+
+      return reverting
+    })
+  }
+
+  /**
+   * List every migration, the executed ones with their execution date
+   */
+  async status(): Promise<MigrationStatus[]> {
+    await this.createTable()
+    const executed = await this.getExecuted()
+    const names = new Set([...this.getMigrationNames(), ...executed.keys()])
+
+    return Array.from(names)
+      .sort()
+      .map(name => ({ name, executedAt: executed.get(name) }))
+  }
+
+  /**
+   * Create a new empty migration file on the migrations directory
+   * @param name - Description of the migration, it'll be appended to the timestamp
+   * @return Path of the new file
+   */
+  create(name: string): string {
+    const slug = name
+      .trim()
+      .toLowerCase()
+      .replace(/[^\w-]+/g, '_')
+    const fileName = `${this.getTimestamp()}_${slug}.${this.extension}`
+    const filePath = path.join(this.directory, fileName)
+
+    fs.mkdirSync(this.directory, { recursive: true })
+    fs.writeFileSync(filePath, TEMPLATES[this.extension])
+
+    return filePath
+  }
+
+  /**
+   * Adds the `migrate` command, with `up`, `down`, `status` and `create` as subcommands.
+   * The db connection is closed after running each of them
+   * @param program - Commander program
+   */
+  addCommands(program: Program) {
+    const migrate = program
+      .command('migrate')
+      .description('Manage the database schema migrations')
+
+    migrate
+      .command('up [count]')
+      .description('Run the pending migrations')
+      .action(count =>
+        this.runCommand(async () => {
+          const names = await this.up(count ? parseCount(count) : undefined)
+          log(names.length ? names.map(name => `Up: ${name}`) : ['Up to date'])
+        })
+      )
+
+    migrate
+      .command('down [count]')
+      .description('Revert the latest migrations (one by default)')
+      .action(count =>
+        this.runCommand(async () => {
+          const names = await this.down(count ? parseCount(count) : 1)
+          log(names.map(name => `Down: ${name}`))
+        })
+      )
+
+    migrate
+      .command('status')
+      .description('List the migrations and whether they were executed')
+      .action(() =>
+        this.runCommand(async () => {
+          const migrations = await this.status()
+          log(
+            migrations.map(
+              ({ name, executedAt }) =>
+                `${
+                  executedAt ? executedAt.toISOString() : 'pending'.padEnd(24)
+                } ${name}`
+            )
+          )
+        })
+      )
+
+    migrate
+      .command('create <name>')
+      .description('Create a new migration file')
+      .action(async name => {
+        log([`Created ${this.create(name)}`])
+      })
+  }
+
+  /**
+   * Names of the migration files, sorted by timestamp.
+   * A migration compiled next to its source has a .ts and a .js file, but it's listed once, and loaded from the .js file as Node resolves it
+   */
+  getMigrationNames(): string[] {
+    if (!fs.existsSync(this.directory)) return []
+
+    const names = fs
+      .readdirSync(this.directory)
+      .filter(fileName => MIGRATION_FILE_REGEX.test(fileName))
+      .map(fileName => path.basename(fileName, path.extname(fileName)))
+
+    return Array.from(new Set(names)).sort()
+  }
+
+  private async getExecuted(): Promise<Map<string, Date>> {
+    const rows = await this.db.query(
+      `SELECT name, executed_at FROM ${this.tableName} ORDER BY name`
+    )
+    return new Map(rows.map(row => [row.name, row.executed_at]))
+  }
+
+  private load(name: string): Migration {
+    const migration: Partial<Migration> = require(path.resolve(
+      this.directory,
+      name
+    ))
+
+    if (
+      typeof migration.up !== 'function' ||
+      typeof migration.down !== 'function'
+    ) {
+      throw new Error(
+        `Migration ${name} should export an up and a down function`
+      )
+    }
+
+    return migration as Migration
+  }
+
+  private createTable() {
+    return this.db.query(`CREATE TABLE IF NOT EXISTS ${this.tableName} (
+      "name" text NOT NULL PRIMARY KEY,
+      "executed_at" timestamp NOT NULL DEFAULT NOW()
+    )`)
+  }
+
+  /**
+   * Holds a session advisory lock on a dedicated connection while the callback runs
+   */
+  private async withLock<T>(callback: () => Promise<T>): Promise<T> {
+    const client = await this.db.pool.connect()
+
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [this.lockId])
+    } catch (error) {
+      client.release()
+      throw error
+    }
+
+    try {
+      await this.createTable()
+
+      return await callback()
+    } finally {
+      let unlockError: Error | undefined
+      try {
+        await client.query('SELECT pg_advisory_unlock($1)', [this.lockId])
+      } catch (error) {
+        unlockError = error
+        throw error
+      } finally {
+        // Destroying the connection ends its session, which frees the lock if it couldn't be unlocked
+        client.release(unlockError)
+      }
+    }
+  }
+
+  private async runCommand(command: () => Promise<void>) {
+    try {
+      await command()
+    } catch (error) {
+      console.error(error.message)
+      process.exitCode = 1
+    } finally {
+      await this.db.close()
+    }
+  }
+
+  private getTimestamp(): string {
+    return new Date()
+      .toISOString()
+      .replace(/[-:T]/g, '')
+      .slice(0, 14)
+  }
+}
+
+function parseCount(argument: string): number {
+  const count = Number(argument)
+  assertCount(count, argument)
+  return count
+}
+
+/**
+ * @param count
+ * @param [argument] - What the user typed, for the error message
+ */
+function assertCount(count: number, argument: string = String(count)) {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(
+      `Invalid count "${argument}". It should be a positive integer`
+    )
+  }
+}
+
+function log(lines: string[]) {
+  console.log(lines.join('\n'))
+}
@@ -0,0 +1,96 @@
+import { Conditions, OrderClause } from './db/types'
+import { ValidationError } from './validation'
+
+export interface PaginateOptions {
+  page?: number
+  perPage?: number
+  orderBy?: OrderClause
+  include?: string[]
+}
+
+export interface CursorPaginateOptions {
+  cursor?: string | null
+  perPage?: number
+  orderBy?: OrderClause
+  include?: string[]
+}
+
+export interface Page<U> {
+  rows: U[]
+  total: number
+  page: number
+  pages: number
+  nextCursor: string | null
+}
+
+export interface CursorPage<U> {
+  rows: U[]
+  nextCursor: string | null
+}
+
+export const DEFAULT_PER_PAGE = 20
+
+/**
+ * Encode the values of the ordering columns of a row as an opaque cursor.
+ * Values go through JSON, so Dates are kept with millisecond precision and as UTC: timestamp columns, which have microseconds
+ * (and no time zone, for `timestamp`), wouldn't match them again. Order by other columns, like a serial id
+ * @param row
+ * @param columns - Ordering columns
+ */
+export function encodeCursor(row: any, columns: string[]): string {
+  const values = columns.map(column => row[column])
+  return Buffer.from(JSON.stringify(values)).toString('base64')
+}
+
+/**
+ * Decode a cursor created by {@link encodeCursor}
+ * @param cursor
+ * @param columns - Ordering columns, used to check the cursor matches them
+ * @return The values of each column
+ * @throws {ValidationError} If the cursor can't be decoded
+ */
+export function decodeCursor(cursor: string, columns: string[]): any[] {
+  let values: any
+
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64').toString())
+  } catch (error) {
+    values = null
+  }
+
+  if (!Array.isArray(values) || values.length !== columns.length) {
+    throw new ValidationError([
+      { field: 'cursor', rule: 'cursor', message: 'cursor is invalid' }
+    ])
+  }
+
+  return values
+}
+
+/**
+ * Conditions matching the rows that come after the cursor values for the supplied order.
+ * It expands to `(a > $1) OR (a = $1 AND b > $2) ...`, so each column can have its own direction.
+ * Ordering columns should not be nullable
+ * @param order  - The order used, which should end on a unique column
+ * @param values - Values of the last row seen, for each ordering column
+ */
+export function toKeysetConditions(
+  order: OrderClause,
+  values: any[]
+): Conditions {
+  const columns = Object.keys(order)
+
+  const $or = columns.map((column, index) => {
+    const conditions: Conditions = {}
+
+    for (let i = 0; i < index; i++) {
+      conditions[columns[i]] = values[i]
+    }
+    const operator = order[column].toUpperCase() === 'DESC' ? '$lt' : '$gt'
+    conditions[column] = { [operator]: values[index] }
+
+    return conditions
+  })
+
+  return { $or }
+}
@@ -0,0 +1,104 @@
+export type RelationType = 'belongsTo' | 'hasOne' | 'hasMany' | 'manyToMany'
+
+/**
+ * Describes how two Models are related. Create them using {@link belongsTo}, {@link hasOne}, {@link hasMany} and {@link manyToMany}.
+ * The related Model is returned by a function so Models can reference each other regardless of the order they're defined
+ */
+export interface RelationDefinition {
+  type: RelationType
+  model: () => any
+  foreignKey: string
+  localKey?: string
+  targetKey?: string
+  through?: string
+  otherKey?: string
+}
+
+export interface Relations {
+  [name: string]: RelationDefinition
+}
+
+/**
+ * The Model holds a foreign key pointing to the related one. Loads a single row or null
+ * @example
+ * static relations = { owner: belongsTo(() => User, 'owner_id') }
+ * @param model
+ * @param foreignKey  - Column on this Model's table
+ * @param [targetKey] - Column on the related table, its primary key by default
+ */
+export function belongsTo(
+  model: () => any,
+  foreignKey: string,
+  targetKey?: string
+): RelationDefinition {
+  return { type: 'belongsTo', model, foreignKey, targetKey }
+}
+
+/**
+ * The related Model holds a foreign key pointing to this one. Loads a single row or null
+ * @param model
+ * @param foreignKey - Column on the related table
+ * @param [localKey] - Column on this Model's table, its primary key by default
+ */
+export function hasOne(
+  model: () => any,
+  foreignKey: string,
+  localKey?: string
+): RelationDefinition {
+  return { type: 'hasOne', model, foreignKey, localKey }
+}
+
+/**
+ * The related Model holds a foreign key pointing to this one. Loads an array of rows
+ * @example
+ * static relations = { parcels: hasMany(() => Parcel, 'estate_id') }
+ * @param model
+ * @param foreignKey - Column on the related table
+ * @param [localKey] - Column on this Model's table, its primary key by default
+ */
+export function hasMany(
+  model: () => any,
+  foreignKey: string,
+  localKey?: string
+): RelationDefinition {
+  return { type: 'hasMany', model, foreignKey, localKey }
+}
+
+/**
+ * Both Models are related through a join table. Loads an array of rows
+ * @example
+ * static relations = {
+ *   tags: manyToMany(() => Tag, { through: 'parcel_tags', foreignKey: 'parcel_id', otherKey: 'tag_id' })
+ * }
+ * @param model
+ * @param options
+ * @param options.through    - Join table
+ * @param options.foreignKey - Column on the join table pointing to this Model's primary key
+ * @param options.otherKey   - Column on the join table pointing to the related Model's primary key
+ */
+export function manyToMany(
+  model: () => any,
+  options: { through: string; foreignKey: string; otherKey: string }
+): RelationDefinition {
+  return { type: 'manyToMany', model, ...options }
+}
+
+/**
+ * Group a list of includes by their first relation, so `['estate', 'estate.owner', 'tags']` becomes `{ estate: ['owner'], tags: [] }`
+ * @param include
+ */
+export function groupIncludes(include: string[]): Map<string, string[]> {
+  const groups = new Map<string, string[]>()
+
+  for (const path of include) {
+    const [name, ...nested] = path.split('.')
+    const group = groups.get(name) || []
+
+    if (nested.length > 0) {
+      group.push(nested.join('.'))
+    }
+    groups.set(name, group)
+  }
+
+  return groups
+}
@@ -0,0 +1,42 @@
+import { AsyncLocalStorage } from 'async_hooks'
+
+/**
+ * Identity of the request being handled, set by {@link server#handleRequest}
+ */
+export interface RequestContext {
+  requestId: string
+  method: string
+  path: string
+  route?: string
+  user?: string
+  startedAt: number
+}
+
+const requestStorage = new AsyncLocalStorage<RequestContext>()
+
+/**
+ * Get the context of the request being handled on the current async context, if any.
+ * It can be read from anywhere the request reaches, like Models or query listeners
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return requestStorage.getStore()
+}
+
+/**
+ * Run the callback with the request context
+ * @param context
+ * @param callback
+ * @return The value returned by the callback
+ */
+export function withRequestContext<T>(
+  context: RequestContext,
+  callback: () => T
+): T {
+  let result!: T
+
+  requestStorage.run(context, () => {
+    result = callback()
+  })
+
+  return result
+}
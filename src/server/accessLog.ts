@@ -0,0 +1,69 @@
+import { Request, Response } from 'express'
+import { RequestContext } from '../requestContext'
+
+export interface AccessLogEntry {
+  requestId: string
+  method: string
+  path: string
+  route?: string
+  status: number
+  duration: number
+  user?: string
+}
+
+export type AccessLogger = (entry: AccessLogEntry) => void
+
+/**
+ * Logs each entry as a line of JSON
+ */
+export const consoleAccessLogger: AccessLogger = entry =>
+  console.log(JSON.stringify(entry))
+
+let loggers: AccessLogger[] = []
+
+/**
+ * Log every request handled by {@link server#handleRequest}, after its response is sent
+ * @param [logger=consoleAccessLogger]
+ * @return A function that stops logging
+ */
+export function useAccessLogger(
+  logger: AccessLogger = consoleAccessLogger
+): () => void {
+  loggers = [...loggers, logger]
+
+  return () => {
+    loggers = loggers.filter(current => current !== logger)
+  }
+}
+
+/**
+ * Send the entry for the request to every logger. Failing loggers are ignored, so they can't break the response
+ * @param req
+ * @param res
+ * @param context - Context the request was handled with
+ */
+export function logAccess(
+  req: Request,
+  res: Response,
+  context: RequestContext
+): void {
+  if (loggers.length === 0) return
+
+  const entry: AccessLogEntry = {
+    requestId: context.requestId,
+    method: context.method,
+    path: context.path,
+    route: context.route || (req.route ? req.route.path : undefined),
+    status: res.statusCode || 200,
+    duration: Date.now() - context.startedAt,
+    user: context.user
+  }
+
+  for (const logger of loggers) {
+    try {
+      logger(entry)
+    } catch (error) {
+      // Nothing else to log it to
+    }
+  }
+}
@@ -0,0 +1,274 @@
+import { recoverPublicKey } from '@noble/secp256k1'
+import { Request } from 'express'
+import { keccak256 } from 'js-sha3'
+import * as jwt from 'jsonwebtoken'
+import { ForbiddenError, UnauthorizedError } from '../errors'
+import { getRequestContext } from '../requestContext'
+
+export type AuthType = 'jwt' | 'signature'
+
+/**
+ * Identity attached to the request by {@link server#requireAuth}
+ */
+export interface Auth {
+  type: AuthType
+  address: string
+  claims?: { [claim: string]: any }
+}
+
+export interface AuthenticatedRequest extends Request {
+  auth: Auth
+}
+
+/**
+ * Remembers the signed requests already used, to reject replays
+ */
+export interface NonceStore {
+  /**
+   * @param nonce
+   * @param expiresAt - Time in millis after which the nonce can be forgotten
+   * @return false if the nonce was already used
+   */
+  add(nonce: string, expiresAt: number): boolean | Promise<boolean>
+}
+
+export interface JwtAuthOptions {
+  secret: jwt.Secret
+  algorithms?: jwt.Algorithm[]
+  audience?: string
+  issuer?: string
+}
+
+export interface SignatureAuthOptions {
+  maxAgeMillis?: number
+  nonceStore?: NonceStore
+}
+
+export interface AuthOptions {
+  jwt?: JwtAuthOptions
+  signature?: SignatureAuthOptions | boolean
+  authorize?: (auth: Auth, req: Request) => boolean | Promise<boolean>
+}
+
+export const AUTH_ADDRESS_HEADER = 'x-auth-address'
+export const AUTH_TIMESTAMP_HEADER = 'x-auth-timestamp'
+export const AUTH_SIGNATURE_HEADER = 'x-auth-signature'
+
+const DEFAULT_SIGNATURE_MAX_AGE = 60 * 1000
+const ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/
+const SIGNATURE_REGEX = /^0x[a-fA-F0-9]{130}$/
+/**
+ * Half the order of the secp256k1 curve. Signatures with a bigger s have a twin with n - s, so they're rejected
+ */
+const HALF_CURVE_ORDER = Buffer.from(
+  '7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0',
+  'hex'
+)
+
+/**
+ * Nonce store kept in memory. Expired nonces are dropped as new ones are added.
+ * Use a shared store if the server runs on more than one process
+ */
+export class MemoryNonceStore implements NonceStore {
+  nonces = new Map<string, number>()
+
+  add(nonce: string, expiresAt: number): boolean {
+    const now = Date.now()
+    for (const [current, currentExpiresAt] of this.nonces) {
+      if (currentExpiresAt <= now) this.nonces.delete(current)
+    }
+
+    if (this.nonces.has(nonce)) return false
+
+    this.nonces.set(nonce, expiresAt)
+    return true
+  }
+}
+
+/**
+ * Wrapper for {@link server#handleRequest} callbacks that only calls them for authenticated requests. For example:
+ *     app.get('/api/me', handleRequest(requireAuth(req => User.findOne({ address: req.auth.address }), {
+ *       jwt: { secret: process.env.JWT_SECRET },
+ *       signature: true
+ *     })))
+ * Requests can authenticate with:
+ *   - jwt: an `Authorization: Bearer <token>` header. The address is taken from the `address` or `sub` claim
+ *   - signature: the `X-Auth-Address`, `X-Auth-Timestamp` (millis) and `X-Auth-Signature` headers. The signature is a personal_sign
+ *     of {@link server#getAuthMessage} for the request, which is valid for `maxAgeMillis` (60 seconds by default) and only once
+ * Failures throw an {@link UnauthorizedError} (401), or a {@link ForbiddenError} (403) if `authorize` rejects the identity
+ * @param callback - Handler, which will receive the request with its `auth`
+ * @param options
+ * @param [options.jwt]       - Accept JWT bearer tokens signed with `secret`
+ * @param [options.signature] - Accept signed messages. Use true for the defaults
+ * @param [options.authorize] - Check the identity can access the route
+ * @return - Callback for {@link server#handleRequest}
+ */
+export function requireAuth<U = any>(
+  callback: (req: AuthenticatedRequest, res: U) => any,
+  options: AuthOptions
+): (req: Request, res: U) => Promise<any> {
+  const signatureOptions = getSignatureOptions(options.signature)
+
+  return async (req, res) => {
+    const auth = await authenticate(req, options.jwt, signatureOptions)
+
+    if (options.authorize && !(await options.authorize(auth, req))) {
+      throw new ForbiddenError()
+    }
+
+    const authenticated = req as AuthenticatedRequest
+    authenticated.auth = auth
+
+    const context = getRequestContext()
+    if (context) context.user = auth.address
+
+    return callback(authenticated, res)
+  }
+}
+
+/**
+ * Message the client should personal_sign to authenticate the request
+ * @param method    - HTTP method, like GET
+ * @param path      - Path of the request, including the query string
+ * @param timestamp - Time of the signature in millis, also sent on the `X-Auth-Timestamp` header
+ */
+export function getAuthMessage(
+  method: string,
+  path: string,
+  timestamp: number
+): string {
+  return `${method.toUpperCase()} ${path}\n${timestamp}`
+}
+
+/**
+ * Recover the address that personal_signed the message
+ * @param message
+ * @param signature - 65 bytes hex signature, with v as 27/28 or 0/1
+ * @return The lowercased address. It throws if the signature is malformed, or malleable (a high s value, as in EIP-2)
+ */
+export function recoverAddress(message: string, signature: string): string {
+  if (!SIGNATURE_REGEX.test(signature)) {
+    throw new Error('Malformed signature')
+  }
+
+  const bytes = Buffer.from(signature.slice(2), 'hex')
+  if (bytes.subarray(32, 64).compare(HALF_CURVE_ORDER) > 0) {
+    throw new Error('Malleable signature')
+  }
+
+  const v = bytes[64]
+  if (![0, 1, 27, 28].includes(v)) {
+    throw new Error('Malformed signature')
+  }
+  const recovery = v >= 27 ? v - 27 : v
+  const publicKey = recoverPublicKey(
+    hashPersonalMessage(message),
+    bytes.subarray(0, 64),
+    recovery
+  )
+
+  return '0x' + keccak256(publicKey.subarray(1)).slice(-40)
+}
+
+async function authenticate(
+  req: Request,
+  jwtOptions?: JwtAuthOptions,
+  signatureOptions?: Required<SignatureAuthOptions>
+): Promise<Auth> {
+  const authorization = getHeader(req, 'authorization')
+
+  if (jwtOptions && authorization && /^Bearer /i.test(authorization)) {
+    return verifyToken(authorization.slice('Bearer '.length), jwtOptions)
+  }
+  if (signatureOptions && getHeader(req, AUTH_SIGNATURE_HEADER)) {
+    return verifySignature(req, signatureOptions)
+  }
+
+  throw new UnauthorizedError('Authentication required')
+}
+
+function verifyToken(token: string, options: JwtAuthOptions): Auth {
+  let claims: any
+
+  try {
+    claims = jwt.verify(token, options.secret, {
+      algorithms: options.algorithms || ['HS256'],
+      audience: options.audience,
+      issuer: options.issuer
+    })
+  } catch (error) {
+    const message =
+      error.name === 'TokenExpiredError' ? 'Token expired' : 'Invalid token'
+    throw new UnauthorizedError(message, {}, error)
+  }
+
+  const address = claims.address || claims.sub
+  if (typeof address !== 'string' || !address) {
+    throw new UnauthorizedError('Invalid token')
+  }
+
+  return { type: 'jwt', address: address.toLowerCase(), claims }
+}
+
+async function verifySignature(
+  req: Request,
+  options: Required<SignatureAuthOptions>
+): Promise<Auth> {
+  const address = getHeader(req, AUTH_ADDRESS_HEADER) || ''
+  const signature = getHeader(req, AUTH_SIGNATURE_HEADER) || ''
+  const timestamp = Number(getHeader(req, AUTH_TIMESTAMP_HEADER))
+
+  if (!ADDRESS_REGEX.test(address) || !Number.isSafeInteger(timestamp)) {
+    throw new UnauthorizedError('Invalid signature')
+  }
+  if (Math.abs(Date.now() - timestamp) > options.maxAgeMillis) {
+    throw new UnauthorizedError('Signature expired')
+  }
+
+  const message = getAuthMessage(req.method, req.originalUrl, timestamp)
+  let recovered: string
+  try {
+    recovered = recoverAddress(message, signature)
+  } catch (error) {
+    throw new UnauthorizedError('Invalid signature', {}, error)
+  }
+  if (recovered !== address.toLowerCase()) {
+    throw new UnauthorizedError('Invalid signature')
+  }
+
+  // Checked last, so invalid requests can't use up the nonce. The signature itself has more than one valid encoding, so it's keyed by what was signed
+  const nonce = `${recovered}:${keccak256(message)}`
+  const expiresAt = timestamp + options.maxAgeMillis
+  if (!(await options.nonceStore.add(nonce, expiresAt))) {
+    throw new UnauthorizedError('Signature already used')
+  }
+
+  return { type: 'signature', address: recovered }
+}
+
+function getSignatureOptions(
+  options: SignatureAuthOptions | boolean | undefined
+): Required<SignatureAuthOptions> | undefined {
+  if (!options) return undefined
+
+  const {
+    maxAgeMillis = DEFAULT_SIGNATURE_MAX_AGE,
+    nonceStore = new MemoryNonceStore()
+  } = options === true ? {} : options
+
+  return { maxAgeMillis, nonceStore }
+}
+
+/**
+ * Hash of the message as signed by personal_sign (EIP-191)
+ */
+function hashPersonalMessage(message: string): Uint8Array {
+  const bytes = Buffer.from(message)
+  const prefix = Buffer.from(`\x19Ethereum Signed Message:\n${bytes.length}`)
+  return new Uint8Array(keccak256.arrayBuffer(Buffer.concat([prefix, bytes])))
+}
+
+function getHeader(req: Request, name: string): string | undefined {
+  const value = (req.headers || {})[name]
+  return Array.isArray(value) ? value[0] : value
+}
@@ -0,0 +1,133 @@
+import { createHash } from 'crypto'
+import { Request, Response } from 'express'
+import { Readable } from 'stream'
+import { CacheOptions, defaultCacheStore } from '../cache'
+import { Auth, AUTH_SIGNATURE_HEADER } from './auth'
+import { HandlerResponse } from './responses'
+
+export interface ResponseCacheOptions extends CacheOptions {
+  key?: (req: Request) => string
+  cacheControl?: string
+}
+
+interface CachedResponse {
+  data: any
+  etag: string
+}
+
+/**
+ * Wrapper for {@link server#handleRequest} callbacks that caches what they return for GET and HEAD requests. For example:
+ *     app.get('/api/me/parcels', handleRequest(requireAuth(cacheResponse(req => Parcel.find({ owner: req.auth.address }), { ttlMillis: 60 * 1000 }), { signature: true })))
+ * Place it inside {@link server#requireAuth} and {@link server#rateLimit}, so they still run on every request. Requests with credentials that
+ * weren't authenticated by an outer `requireAuth` skip the cache, as their response could be private.
+ * The response gets an `ETag` and a `Cache-Control` header, and requests with a matching `If-None-Match` get an empty 304.
+ * Typed responses and streams are sent as they are, without caching them
+ * @param callback - Handler, only called if the response isn't cached
+ * @param options
+ * @param options.ttlMillis      - How long to cache the response for. Also the default `max-age`
+ * @param [options.store]        - Defaults to the shared in-memory LRU store
+ * @param [options.key]          - Cache key for the request. Defaults to its route, params, query and authenticated address
+ * @param [options.cacheControl] - Value of the `Cache-Control` header. Defaults to `private, max-age=<ttl in seconds>`
+ * @return - Callback for {@link server#handleRequest}
+ */
+export function cacheResponse<
+  T extends Request = Request,
+  U extends Response = Response
+>(
+  callback: (req: T, res: U) => any,
+  options: ResponseCacheOptions
+): (req: T, res: U) => Promise<any> {
+  const {
+    ttlMillis,
+    store = defaultCacheStore,
+    key = getResponseCacheKey,
+    cacheControl = `private, max-age=${Math.floor(ttlMillis / 1000)}`
+  } = options
+
+  return async (req, res) => {
+    if (
+      (req.method !== 'GET' && req.method !== 'HEAD') ||
+      hasUnverifiedCredentials(req)
+    ) {
+      return callback(req, res)
+    }
+
+    const cacheKey = key(req)
+
+    let cached: CachedResponse | undefined = await store.get(cacheKey)
+    if (cached === undefined) {
+      const data = await callback(req, res)
+      if (data instanceof HandlerResponse || data instanceof Readable) {
+        return data
+      }
+
+      cached = { data, etag: toETag(data) }
+      await store.set(cacheKey, cached, ttlMillis)
+    }
+
+    res.setHeader('ETag', cached.etag)
+    res.setHeader('Cache-Control', cacheControl)
+
+    if (isFresh(req, cached.etag)) {
+      return new HandlerResponse(async notModified => {
+        notModified.status(304).end()
+      })
+    }
+
+    return cached.data
+  }
+}
+
+/**
+ * Default cache key: the route, its params and the query string, sorted so the order of the query params doesn't matter.
+ * Requests authenticated by {@link server#requireAuth} are keyed by their address too
+ * @param req
+ */
+export function getResponseCacheKey(req: Request): string {
+  const route = req.route ? req.route.path : req.path
+  const query = req.query || {}
+  const sortedQuery = Object.keys(query)
+    .sort()
+    .map(name => [name, query[name]])
+  const auth = getAuth(req)
+  const user = auth ? `:${auth.address}` : ''
+
+  return `response:${req.baseUrl || ''}${route}:${JSON.stringify(
+    req.params || {}
+  )}:${JSON.stringify(sortedQuery)}${user}`
+}
+
+/**
+ * If the request carries credentials but no identity, the cache sits outside {@link server#requireAuth} and would skip it
+ */
+function hasUnverifiedCredentials(req: Request): boolean {
+  const headers = req.headers || {}
+  const hasCredentials = !!(
+    headers['authorization'] || headers[AUTH_SIGNATURE_HEADER]
+  )
+  return hasCredentials && !getAuth(req)
+}
+
+function getAuth(req: Request): Auth | undefined {
+  return (req as Request & { auth?: Auth }).auth
+}
+
+function toETag(data: any): string {
+  const hash = createHash('sha1')
+    .update(JSON.stringify(data === undefined ? null : data))
+    .digest('base64')
+  return `"${hash}"`
+}
+
+/**
+ * If the client already has this version of the response, as told by its `If-None-Match` header
+ */
+function isFresh(req: Request, etag: string): boolean {
+  const header = (req.headers || {})['if-none-match']
+  if (!header) return false
+
+  return header
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .some(tag => tag === etag || tag === '*')
+}
@@ -1,15 +1,38 @@
+import { randomBytes } from 'crypto'
 import { Request, Response, RequestHandler } from 'express'
-import * as Rollbar from 'rollbar'
+import { BadRequestError } from '../errors'
+import { DEFAULT_PER_PAGE } from '../pagination'
+import { RequestContext, withRequestContext } from '../requestContext'
+import { FieldError, ValidationError } from '../validation'
+import { logAccess } from './accessLog'
+import {
+  addErrorReporter,
+  getErrorContext,
+  reportError,
+  RollbarReporter
+} from './reporters'
+import { sendError, sendResponse } from './responses'
 
-let rollbar: Rollbar
+export * from './accessLog'
+export * from './auth'
+export * from './cache'
+export * from './params'
+export * from './rateLimit'
+export * from './reporters'
+export * from './responses'
+
+const INTERNAL_ERROR_MESSAGE = 'Internal server error'
+const REQUEST_ID_HEADER = 'X-Request-Id'
+const REQUEST_ID_REGEX = /^[\w.:-]{1,128}$/
 
 /**
- * Set up rollbar integration to report server errors raised while using {@link server#handleRequest}
+ * Set up rollbar integration to report server errors raised while using {@link server#handleRequest}.
+ * Shorthand for `addErrorReporter(new RollbarReporter(accessToken))`, so only 5xx errors are reported
  * @param accessToken - Rollbar access token
  */
 export function useRollbar(accessToken: string): void {
   if (!accessToken) return
-  rollbar = new Rollbar({ accessToken })
+  addErrorReporter(new RollbarReporter(accessToken))
 }
 
 /**
@@ -19,6 +42,11 @@ export function useRollbar(accessToken: string): void {
  *        await something()
  *        return 'Success'
  *    }))
+ * Errors with a `statusCode` (see {@link HttpError}) are sent with it, along with their message and data. Any other error is sent as a generic 500.
+ * Errors are sent to the reporters registered with {@link server#addErrorReporter}.
+ * The callback runs with a request context (see {@link getRequestContext}), identified by the `X-Request-Id` header of the request, or a new id.
+ * The id is sent back on the same header, and the request is logged by the loggers set with {@link server#useAccessLogger}
+ * The callback can also return a typed response, like {@link server#created}, {@link server#redirect} or {@link server#csv}, or a Node readable stream.
  * @param callback - Actual handler, the return value will be used as response to the client. It will receive (req, res) as parameters
  * @return - Wrapper function
  */
@@ -28,24 +56,56 @@ export function handleRequest<T = Request, U = Response>(
 export function handleRequest(
   callback: (req: Request, res: Response) => any
 ): RequestHandler {
-  return async (req, res) => {
-    try {
-      const data = await callback(req, res)
+  return (req, res) => {
+    const context = createRequestContext(req)
+    res.setHeader(REQUEST_ID_HEADER, context.requestId)
+
+    return withRequestContext(context, async () => {
+      try {
+        const data = await callback(req, res)
+
+        return await sendResponse(res, data)
+      } catch (error) {
+        const statusCode: number = error.statusCode || 500
+        reportError(error, getErrorContext(req, statusCode))
 
-      return res.json(sendOk(data))
-    } catch (error) {
-      const data = error.data || {}
-      const message = error.message
-      const statusCode = error.statusCode
+        // Errors after the first byte of a stream can't change the response anymore, so the connection is closed instead
+        if (res.headersSent) {
+          res.destroy()
+          return
+        }
 
-      if (rollbar) rollbar.error(error, req)
+        // Only errors with a status code (like HttpError) are safe to show, anything else could leak internal details
+        if (!error.statusCode) {
+          res.status(500)
+          return res.json(sendError({}, INTERNAL_ERROR_MESSAGE))
+        }
 
-      if (statusCode) {
         res.status(statusCode)
+        return res.json(sendError(error.data || {}, error.message))
+      } finally {
+        logAccess(req, res, context)
       }
+    })
+  }
+}
 
-      return res.json(sendError(data, message))
-    }
+/**
+ * Context for the request, forwarding its `X-Request-Id` if it looks safe to log
+ */
+function createRequestContext(req: Request): RequestContext {
+  const header = (req.headers || {})[REQUEST_ID_HEADER.toLowerCase()]
+  const forwarded = Array.isArray(header) ? header[0] : header
+
+  return {
+    requestId:
+      forwarded && REQUEST_ID_REGEX.test(forwarded)
+        ? forwarded
+        : randomBytes(16).toString('hex'),
+    method: req.method,
+    path: req.path,
+    route: req.route ? req.route.path : undefined,
+    startedAt: Date.now()
   }
 }
 
@@ -67,16 +127,55 @@ export function extractFromReq<T = string>(req: Request, param: string): T {
   }
 
   if (!value) {
-    throw new Error(`Could not get ${param} from request`)
+    throw new BadRequestError(`Could not get ${param} from request`)
   }
 
   return value
 }
 
-export function sendOk(data) {
-  return { ok: true, data }
-}
+/**
+ * Get the pagination parameters from the request query string: `page`, `limit` and `cursor`.
+ * The result can be supplied to {@link Model.paginate} or {@link Model.paginateByCursor}. For example:
+ *     app.get('/api/parcels', handleRequest(req => Parcel.paginate({}, extractPaginationFromReq(req))))
+ * @param req                   - Express js request object
+ * @param [options]
+ * @param [options.perPage=20]  - Used if the request has no `limit`
+ * @param [options.maxPerPage=100] - Upper bound for `limit`
+ * @return - The page, perPage and cursor. It throws a {@link ValidationError} if any value is invalid
+ */
+export function extractPaginationFromReq(
+  req: Request,
+  options: { perPage?: number; maxPerPage?: number } = {}
+): { page: number; perPage: number; cursor: string | null } {
+  const { perPage = DEFAULT_PER_PAGE, maxPerPage = 100 } = options
+  const query = req.query || {}
+  const errors: FieldError[] = []
+
+  const toInteger = (param: string, defaultValue: number, max = Infinity) => {
+    if (query[param] === undefined || query[param] === '') return defaultValue
+
+    const value = Number(query[param])
+    if (!Number.isInteger(value) || value < 1 || value > max) {
+      const range = max === Infinity ? '' : ` up to ${max}`
+      errors.push({
+        field: param,
+        rule: 'range',
+        message: `${param} should be a positive integer${range}`
+      })
+    }
+    return value
+  }
+
+  const pagination = {
+    page: toInteger('page', 1),
+    perPage: toInteger('limit', perPage, maxPerPage),
+    cursor:
+      typeof query.cursor === 'string' && query.cursor ? query.cursor : null
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors)
+  }
 
-export function sendError(data, error) {
-  return { ok: false, data, error }
+  return pagination
 }
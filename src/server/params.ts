@@ -0,0 +1,249 @@
+import { Request } from 'express'
+import { FieldError, ValidationError } from '../validation'
+
+export type ParamSource = 'query' | 'body' | 'params'
+
+export type ParamType =
+  | 'string'
+  | 'int'
+  | 'float'
+  | 'bool'
+  | 'address'
+  | 'uuid'
+  | 'enum'
+  | 'array'
+  | 'json'
+
+export interface ParamDefinition {
+  type: ParamType
+  source?: ParamSource
+  optional?: boolean
+  default?: any
+  min?: number
+  max?: number
+  values?: readonly string[]
+  items?: ParamDefinition
+}
+
+export interface ParamSchema {
+  [name: string]: ParamDefinition
+}
+
+interface ParamTypes {
+  string: string
+  int: number
+  float: number
+  bool: boolean
+  address: string
+  uuid: string
+  enum: string
+  array: any[]
+  json: any
+}
+
+export type ParamValue<D extends ParamDefinition> = D extends {
+  type: 'enum'
+  values: readonly (infer E)[]
+}
+  ? E
+  : D extends { type: 'array'; items: ParamDefinition }
+  ? ParamValue<D['items']>[]
+  : ParamTypes[D['type']]
+
+export type ParamValues<S extends ParamSchema> = {
+  [K in keyof S]: S[K] extends { optional: true }
+    ? S[K] extends { default: any }
+      ? ParamValue<S[K]>
+      : ParamValue<S[K]> | undefined
+    : ParamValue<S[K]>
+}
+
+const SOURCES: ParamSource[] = ['query', 'body', 'params']
+const ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Get every param declared on the schema from the request, coerced to its type. For example:
+ *     app.get('/api/parcels', handleRequest(req => {
+ *       const { owner, limit, status } = extractParamsFromReq(req, {
+ *         owner: { type: 'address' },
+ *         limit: { type: 'int', min: 1, max: 100, default: 20 },
+ *         status: { type: 'enum', values: ['open', 'sold'], optional: true }
+ *       })
+ *       ...
+ *     }))
+ * Values are missing only if they're undefined or null, so `0`, `false` and `''` are kept
+ * @param req    - Express js request object
+ * @param schema - Definition of each param:
+ *   - type: string, int, float, bool, address (lowercased), uuid, enum (one of `values`), array (of `items`, from an array or a comma separated string) or json
+ *   - source: query, body or params. If empty, it looks for the param on each of them, in that order
+ *   - optional, default: missing params are an error unless they're optional or have a default
+ *   - min, max: bounds for numbers, or lengths for strings and arrays
+ * @return The params, typed after the schema. It throws a single {@link ValidationError} (400) listing every invalid field
+ */
+export function extractParamsFromReq<S extends ParamSchema>(
+  req: Request,
+  schema: S
+): ParamValues<S> {
+  const values: any = {}
+  const errors: FieldError[] = []
+
+  for (const name of Object.keys(schema)) {
+    const definition = schema[name]
+    const value = getRawParam(req, name, definition.source)
+
+    if (value === undefined || value === null) {
+      if (definition.default !== undefined) {
+        values[name] = definition.default
+      } else if (!definition.optional) {
+        errors.push({
+          field: name,
+          rule: 'required',
+          message: `${name} is required`
+        })
+      }
+      continue
+    }
+
+    values[name] = coerceParam(name, value, definition, errors)
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors)
+  }
+
+  return values
+}
+
+function getRawParam(req: Request, name: string, source?: ParamSource) {
+  const sources = source ? [source] : SOURCES
+
+  for (const current of sources) {
+    const container = req[current]
+    if (container && container[name] !== undefined) {
+      return container[name]
+    }
+  }
+
+  return undefined
+}
+
+function coerceParam(
+  field: string,
+  value: any,
+  definition: ParamDefinition,
+  errors: FieldError[]
+): any {
+  const fail = (rule: string, message: string) => {
+    errors.push({ field, rule, message: `${field} ${message}` })
+    return undefined
+  }
+
+  switch (definition.type) {
+    case 'string':
+      if (typeof value !== 'string') return fail('type', 'should be a string')
+      return checkBounds(field, value, value.length, definition, errors)
+
+    case 'int':
+    case 'float': {
+      const isValid =
+        typeof value === 'number' ||
+        (typeof value === 'string' && value.trim() !== '')
+      const numeric = isValid ? Number(value) : NaN
+
+      if (definition.type === 'int' && !Number.isSafeInteger(numeric)) {
+        return fail('type', 'should be an integer')
+      }
+      if (!Number.isFinite(numeric)) {
+        return fail('type', 'should be a number')
+      }
+      return checkBounds(field, numeric, numeric, definition, errors)
+    }
+
+    case 'bool':
+      if (value === true || value === 'true' || value === '1') return true
+      if (value === false || value === 'false' || value === '0') return false
+      return fail('type', 'should be a boolean')
+
+    case 'address':
+      if (typeof value !== 'string' || !ADDRESS_REGEX.test(value)) {
+        return fail('type', 'should be an Ethereum address')
+      }
+      return value.toLowerCase()
+
+    case 'uuid':
+      if (typeof value !== 'string' || !UUID_REGEX.test(value)) {
+        return fail('type', 'should be a UUID')
+      }
+      return value
+
+    case 'enum': {
+      const values = definition.values || []
+      if (!values.includes(value)) {
+        return fail('enum', `should be one of ${values.join(', ')}`)
+      }
+      return value
+    }
+
+    case 'array': {
+      const items = Array.isArray(value)
+        ? value
+        : typeof value === 'string'
+        ? value.split(',').filter(item => item !== '')
+        : null
+      if (!items) return fail('type', 'should be an array')
+
+      const itemDefinition = definition.items
+      const coerced = itemDefinition
+        ? items.map((item, index) =>
+            coerceParam(`${field}.${index}`, item, itemDefinition, errors)
+          )
+        : items
+      return checkBounds(field, coerced, coerced.length, definition, errors)
+    }
+
+    case 'json':
+      if (typeof value !== 'string') return value
+      try {
+        return JSON.parse(value)
+      } catch (error) {
+        return fail('type', 'should be valid JSON')
+      }
+
+    default:
+      throw new Error(`Unknown type ${definition.type} for param ${field}`)
+  }
+}
+
+/**
+ * Check the value (for numbers) or length (for strings and arrays) is within the bounds of the definition
+ */
+function checkBounds<V>(
+  field: string,
+  value: V,
+  size: number,
+  definition: ParamDefinition,
+  errors: FieldError[]
+): V | undefined {
+  const { min, max } = definition
+  const unit = typeof value === 'number' ? '' : ' in length'
+
+  if (min !== undefined && size < min) {
+    errors.push({
+      field,
+      rule: 'min',
+      message: `${field} should be at least ${min}${unit}`
+    })
+    return undefined
+  }
+  if (max !== undefined && size > max) {
+    errors.push({
+      field,
+      rule: 'max',
+      message: `${field} should be at most ${max}${unit}`
+    })
+    return undefined
+  }
+
+  return value
+}
@@ -0,0 +1,253 @@
+import { Request, Response } from 'express'
+import { Postgres } from '../db/postgres'
+import { TooManyRequestsError } from '../errors'
+import { raw, SQL } from '../sql'
+import { Auth } from './auth'
+
+export type RateLimitStrategy = 'fixed-window' | 'token-bucket'
+
+export type RateLimitKey = 'ip' | 'address' | ((req: Request) => string)
+
+/**
+ * Keeps the state of each rate limit key. Updates should be atomic, so instances sharing a store share the limits
+ */
+export interface RateLimitStore {
+  /**
+   * @param key
+   * @param updater   - Receives the current state (null if there's none or it expired) and returns the new one
+   * @param ttlMillis - How long the new state should be kept
+   */
+  update<S>(
+    key: string,
+    updater: (state: S | null) => S,
+    ttlMillis: number
+  ): void | Promise<void>
+}
+
+export interface RateLimitOptions {
+  limit: number
+  windowMillis: number
+  strategy?: RateLimitStrategy
+  key?: RateLimitKey
+  prefix?: string
+  store?: RateLimitStore
+}
+
+interface FixedWindowState {
+  count: number
+  resetAt: number
+}
+
+interface TokenBucketState {
+  tokens: number
+  updatedAt: number
+}
+
+interface RateLimitResult<S> {
+  state: S
+  allowed: boolean
+  retryAfterMillis: number
+}
+
+const SWEEP_INTERVAL = 60 * 1000
+
+/**
+ * Rate limit store kept in memory, for a single process. Expired keys are dropped every minute
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  entries = new Map<string, { state: any; expiresAt: number }>()
+  private nextSweepAt = 0
+
+  update<S>(
+    key: string,
+    updater: (state: S | null) => S,
+    ttlMillis: number
+  ): void {
+    const now = Date.now()
+    if (now >= this.nextSweepAt) {
+      this.sweep(now)
+    }
+
+    const entry = this.entries.get(key)
+    const state = entry && entry.expiresAt > now ? entry.state : null
+
+    this.entries.set(key, { state: updater(state), expiresAt: now + ttlMillis })
+  }
+
+  private sweep(now: number) {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key)
+    }
+    this.nextSweepAt = now + SWEEP_INTERVAL
+  }
+}
+
+/**
+ * Rate limit store backed by a Postgres table, so several instances share the limits.
+ * Each update locks the row of the key inside a transaction. Create the table with {@link PostgresRateLimitStore#createTable}
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  db: Postgres
+  tableName: string
+
+  /**
+   * @param db
+   * @param [tableName=rate_limits]
+   */
+  constructor(db: Postgres, tableName: string = 'rate_limits') {
+    this.db = db
+    this.tableName = tableName
+  }
+
+  createTable() {
+    return this.db.query(`CREATE TABLE IF NOT EXISTS ${this.tableName} (
+      "key" text NOT NULL PRIMARY KEY,
+      "state" jsonb,
+      "expires_at" timestamptz NOT NULL
+    )`)
+  }
+
+  update<S>(
+    key: string,
+    updater: (state: S | null) => S,
+    ttlMillis: number
+  ): Promise<void> {
+    const table = raw(this.tableName)
+
+    return this.db.transaction(async transaction => {
+      await transaction.query(
+        SQL`INSERT INTO ${table} ("key", "state", "expires_at")
+          VALUES (${key}, NULL, NOW())
+          ON CONFLICT ("key") DO NOTHING`
+      )
+      const [row] = await transaction.query(
+        SQL`SELECT "state", "expires_at" > NOW() AS "is_valid"
+          FROM ${table} WHERE "key" = ${key} FOR UPDATE`
+      )
+      const state = row && row.is_valid ? row.state : null
+
+      await transaction.query(
+        SQL`UPDATE ${table}
+          SET "state" = ${JSON.stringify(updater(state))},
+            "expires_at" = NOW() + ${ttlMillis} * INTERVAL '1 millisecond'
+          WHERE "key" = ${key}`
+      )
+    })
+  }
+
+  /**
+   * Delete the expired keys. Run it periodically to keep the table small
+   */
+  deleteExpired() {
+    return this.db.query(
+      SQL`DELETE FROM ${raw(this.tableName)} WHERE "expires_at" <= NOW()`
+    )
+  }
+}
+
+/**
+ * Wrapper for {@link server#handleRequest} callbacks that limits how many requests each client can make. For example:
+ *     app.post('/api/bids', handleRequest(rateLimit(req => Bid.create(req.body), {
+ *       limit: 10,
+ *       windowMillis: 60 * 1000,
+ *       strategy: 'token-bucket'
+ *     })))
+ * Limited requests throw a {@link TooManyRequestsError} (429), sending the seconds to wait on the `Retry-After` header and as `data.retryAfter`
+ * @param callback - Handler, called only if the request is allowed
+ * @param options
+ * @param options.limit         - Requests allowed on each window. For token-bucket, the size of the bucket
+ * @param options.windowMillis  - Length of the window. For token-bucket, the time it takes to refill the whole bucket
+ * @param [options.strategy=fixed-window] - fixed-window counts the requests on each window. token-bucket refills continuously, allowing bursts of up to `limit`
+ * @param [options.key=ip]      - What to limit by: the request ip, the address attached by {@link server#requireAuth} (or the ip if there's none), or a function returning the key
+ * @param [options.prefix]      - Namespace for the keys, to keep separate limits for each route on the same store
+ * @param [options.store]       - Where to keep the state. Defaults to a {@link MemoryRateLimitStore} for this wrapper
+ * @return - Callback for {@link server#handleRequest}
+ */
+export function rateLimit<
+  T extends Request = Request,
+  U extends Response = Response
+>(
+  callback: (req: T, res: U) => any,
+  options: RateLimitOptions
+): (req: T, res: U) => Promise<any> {
+  const {
+    limit,
+    windowMillis,
+    strategy = 'fixed-window',
+    key = 'ip',
+    prefix = '',
+    store = new MemoryRateLimitStore()
+  } = options
+  const consume: (state: any, now: number) => RateLimitResult<any> =
+    strategy === 'token-bucket'
+      ? (state, now) => takeToken(state, now, limit, windowMillis)
+      : (state, now) => incrementWindow(state, now, limit, windowMillis)
+
+  return async (req, res) => {
+    let result: RateLimitResult<any> | undefined
+
+    await store.update(
+      prefix + getRateLimitKey(req, key),
+      state => {
+        result = consume(state, Date.now())
+        return result.state
+      },
+      windowMillis
+    )
+
+    if (result && !result.allowed) {
+      const retryAfter = Math.max(1, Math.ceil(result.retryAfterMillis / 1000))
+      res.setHeader('Retry-After', String(retryAfter))
+      throw new TooManyRequestsError('Too many requests', { retryAfter })
+    }
+
+    return callback(req, res)
+  }
+}
+
+function getRateLimitKey(req: Request, key: RateLimitKey): string {
+  if (typeof key === 'function') return key(req)
+
+  const { auth } = req as Request & { auth?: Auth }
+  if (key === 'address' && auth) return auth.address
+
+  return req.ip || 'unknown'
+}
+
+function incrementWindow(
+  state: FixedWindowState | null,
+  now: number,
+  limit: number,
+  windowMillis: number
+): RateLimitResult<FixedWindowState> {
+  const current =
+    state && now < state.resetAt
+      ? state
+      : { count: 0, resetAt: now + windowMillis }
+  const allowed = current.count < limit
+
+  return {
+    state: allowed ? { ...current, count: current.count + 1 } : current,
+    allowed,
+    retryAfterMillis: current.resetAt - now
+  }
+}
+
+function takeToken(
+  state: TokenBucketState | null,
+  now: number,
+  limit: number,
+  windowMillis: number
+): RateLimitResult<TokenBucketState> {
+  const tokensPerMilli = limit / windowMillis
+  const refilled = state
+    ? Math.min(limit, state.tokens + (now - state.updatedAt) * tokensPerMilli)
+    : limit
+  const allowed = refilled >= 1
+
+  return {
+    state: { tokens: allowed ? refilled - 1 : refilled, updatedAt: now },
+    allowed,
+    retryAfterMillis: allowed ? 0 : (1 - refilled) / tokensPerMilli
+  }
+}
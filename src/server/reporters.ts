@@ -0,0 +1,176 @@
+import { Request } from 'express'
+import * as Rollbar from 'rollbar'
+import { getRequestContext } from '../requestContext'
+
+/**
+ * Information about the request that failed, sent to every reporter
+ */
+export interface ErrorContext {
+  method: string
+  route: string
+  url: string
+  statusCode: number
+  user?: any
+  requestId?: string
+}
+
+export interface ErrorReporter {
+  report(error: Error, context: ErrorContext): void | Promise<void>
+}
+
+export interface ErrorReporterOptions {
+  filter?: (statusCode: number, error: Error) => boolean
+}
+
+interface RegisteredReporter {
+  reporter: ErrorReporter
+  filter: (statusCode: number, error: Error) => boolean
+}
+
+let reporters: RegisteredReporter[] = []
+
+/**
+ * Register a reporter for the errors caught by {@link server#handleRequest}
+ * @example
+ * addErrorReporter(new RollbarReporter(process.env.ROLLBAR_TOKEN))
+ * addErrorReporter(new ConsoleReporter(), { filter: statusCode => statusCode >= 400 })
+ * @param reporter
+ * @param [options]
+ * @param [options.filter] - Which errors to report, by their status code. Only 5xx errors are reported by default
+ * @return A function that removes the reporter
+ */
+export function addErrorReporter(
+  reporter: ErrorReporter,
+  options: ErrorReporterOptions = {}
+): () => void {
+  const registered = {
+    reporter,
+    filter: options.filter || isServerError
+  }
+  reporters = [...reporters, registered]
+
+  return () => {
+    reporters = reporters.filter(current => current !== registered)
+  }
+}
+
+/**
+ * Send the error to every registered reporter whose filter accepts it, without waiting for them.
+ * Failing reporters are ignored, so they can't break the response
+ * @param error
+ * @param context
+ */
+export function reportError(error: Error, context: ErrorContext): void {
+  for (const { reporter, filter } of reporters) {
+    try {
+      if (filter(context.statusCode, error)) {
+        Promise.resolve(reporter.report(error, context)).then(ignore, ignore)
+      }
+    } catch (reporterError) {
+      // Nothing else to report it to
+    }
+  }
+}
+
+/**
+ * Build the context of a failed request
+ * @param req        - Express js request object
+ * @param statusCode - Status the response was sent with
+ */
+export function getErrorContext(
+  req: Request,
+  statusCode: number
+): ErrorContext {
+  const context = getRequestContext()
+  const headers = req.headers || {}
+  const requestId = context ? context.requestId : headers['x-request-id']
+
+  return {
+    method: req.method,
+    route: req.route ? req.route.path : req.path,
+    url: req.originalUrl,
+    statusCode,
+    user: getUser(req),
+    requestId: Array.isArray(requestId) ? requestId[0] : requestId
+  }
+}
+
+/**
+ * Address attached by {@link server#requireAuth}, or the `user` set by other middlewares
+ */
+function getUser(req: any) {
+  return req.auth ? req.auth.address : req.user
+}
+
+function isServerError(statusCode: number) {
+  return statusCode >= 500
+}
+
+function ignore() {
+  return undefined
+}
+
+/**
+ * Reports errors to Rollbar, sending the context as custom data
+ */
+export class RollbarReporter implements ErrorReporter {
+  rollbar: Rollbar
+
+  /**
+   * @param accessTokenOrRollbar - Rollbar access token or an already configured instance
+   */
+  constructor(accessTokenOrRollbar: string | Rollbar) {
+    this.rollbar =
+      typeof accessTokenOrRollbar === 'string'
+        ? new Rollbar({ accessToken: accessTokenOrRollbar })
+        : accessTokenOrRollbar
+  }
+
+  report(error: Error, context: ErrorContext) {
+    this.rollbar.error(error, { ...context })
+  }
+}
+
+/**
+ * Logs each error with its context, as a line of JSON by default
+ */
+export class ConsoleReporter implements ErrorReporter {
+  json: boolean
+
+  /**
+   * @param [options]
+   * @param [options.json=true] - Log a line of JSON instead of the error and context objects
+   */
+  constructor(options: { json?: boolean } = {}) {
+    this.json = options.json !== false
+  }
+
+  report(error: Error, context: ErrorContext) {
+    if (!this.json) {
+      console.error(error, context)
+      return
+    }
+
+    console.error(
+      JSON.stringify({
+        ...context,
+        error: { name: error.name, message: error.message, stack: error.stack }
+      })
+    )
+  }
+}
+
+/**
+ * Keeps every reported error, useful for tests
+ */
+export class MemoryReporter implements ErrorReporter {
+  reports: { error: Error; context: ErrorContext }[] = []
+
+  report(error: Error, context: ErrorContext) {
+    this.reports.push({ error, context })
+  }
+
+  clear() {
+    this.reports = []
+  }
+}
@@ -0,0 +1,238 @@
+import { Response } from 'express'
+import * as path from 'path'
+import { Readable, pipeline } from 'stream'
+import { promisify } from 'util'
+import { NotFoundError } from '../errors'
+
+const pipelineAsync = promisify(pipeline)
+
+export interface StreamResponseOptions {
+  contentType?: string
+  filename?: string
+  status?: number
+}
+
+export interface FileResponseOptions {
+  contentType?: string
+  filename?: string
+}
+
+export interface CSVOptions {
+  columns?: string[]
+  filename?: string
+}
+
+/**
+ * Response a {@link server#handleRequest} callback can return to send something other than the JSON envelope.
+ * Build them with {@link server#created}, {@link server#noContent}, {@link server#redirect}, {@link server#file}, {@link server#stream} or {@link server#csv}
+ */
+export class HandlerResponse {
+  send: (res: Response) => Promise<void>
+
+  /**
+   * @param send - Writes the response. Errors thrown before the headers are sent get the error envelope
+   */
+  constructor(send: (res: Response) => Promise<void>) {
+    this.send = send
+  }
+}
+
+export function sendOk(data) {
+  return { ok: true, data }
+}
+
+export function sendError(data, error) {
+  return { ok: false, data, error }
+}
+
+/**
+ * Respond with a 201 and the data on the usual envelope
+ * @param data
+ * @param [location] - URL of the created resource, sent on the `Location` header
+ */
+export function created(data: any, location?: string): HandlerResponse {
+  return new HandlerResponse(async res => {
+    if (location) res.location(location)
+    res.status(201).json(sendOk(data))
+  })
+}
+
+/**
+ * Respond with an empty 204
+ */
+export function noContent(): HandlerResponse {
+  return new HandlerResponse(async res => {
+    res.status(204).end()
+  })
+}
+
+/**
+ * Redirect the client to the url
+ * @param url
+ * @param [status=302]
+ */
+export function redirect(url: string, status: number = 302): HandlerResponse {
+  return new HandlerResponse(async res => res.redirect(status, url))
+}
+
+/**
+ * Send a file from disk, using `res.sendFile`. Missing files throw a {@link NotFoundError}
+ * @param filePath
+ * @param [options]
+ * @param [options.contentType] - Defaults to the one for the file extension
+ * @param [options.filename]    - Send it as an attachment with this name
+ */
+export function file(
+  filePath: string,
+  options: FileResponseOptions = {}
+): HandlerResponse {
+  const { contentType, filename } = options
+
+  return new HandlerResponse(
+    res =>
+      new Promise((resolve, reject) => {
+        if (filename) res.attachment(filename)
+        if (contentType) res.type(contentType)
+
+        res.sendFile(path.resolve(filePath), error => {
+          if (!error) return resolve()
+
+          const { code } = error as NodeJS.ErrnoException
+          reject(
+            !res.headersSent && (code === 'ENOENT' || code === 'EISDIR')
+              ? new NotFoundError('File not found', {}, error)
+              : error
+          )
+        })
+      })
+  )
+}
+
+/**
+ * Stream the chunks to the client. Returning a Node readable stream from the callback does the same with the default options
+ * @param source - Readable stream or (async) iterable of strings or Buffers
+ * @param [options]
+ * @param [options.contentType=application/octet-stream]
+ * @param [options.filename] - Send it as an attachment with this name
+ * @param [options.status=200]
+ */
+export function stream(
+  source: Readable | AsyncIterable<any> | Iterable<any>,
+  options: StreamResponseOptions = {}
+): HandlerResponse {
+  return new HandlerResponse(res =>
+    sendStream(res, toAsyncIterable(source), options)
+  )
+}
+
+/**
+ * Stream the rows as CSV, with a header line. For example:
+ *     app.get('/api/parcels.csv', handleRequest(() => csv(Parcel.stream(), { filename: 'parcels.csv' })))
+ * @param rows - Objects to send, as an array or an (async) iterable like {@link Model.stream}
+ * @param [options]
+ * @param [options.columns]  - Columns to send, in order. Defaults to the keys of the first row
+ * @param [options.filename] - Send it as an attachment with this name
+ */
+export function csv(
+  rows: AsyncIterable<any> | Iterable<any>,
+  options: CSVOptions = {}
+): HandlerResponse {
+  return new HandlerResponse(res =>
+    sendStream(res, toCSVLines(toAsyncIterable(rows), options.columns), {
+      contentType: 'text/csv; charset=utf-8',
+      filename: options.filename
+    })
+  )
+}
+
+/**
+ * Send what a {@link server#handleRequest} callback returned: typed responses and readable streams are sent as they are, anything else on the JSON envelope
+ * @param res
+ * @param data
+ */
+export async function sendResponse(res: Response, data: any): Promise<void> {
+  if (data instanceof HandlerResponse) {
+    return data.send(res)
+  }
+  if (data instanceof Readable) {
+    return sendStream(res, data, {})
+  }
+
+  res.json(sendOk(data))
+}
+
+/**
+ * Waits for the first chunk before sending the headers, so errors raised until then still get the error envelope
+ */
+async function sendStream(
+  res: Response,
+  source: AsyncIterable<any>,
+  options: StreamResponseOptions
+): Promise<void> {
+  const {
+    contentType = 'application/octet-stream',
+    filename,
+    status = 200
+  } = options
+  const iterator = source[Symbol.asyncIterator]()
+  const first = await iterator.next()
+
+  if (filename) res.attachment(filename)
+  res.type(contentType)
+  res.status(status)
+
+  async function* chunks() {
+    if (first.done) return
+    yield first.value
+    yield* { [Symbol.asyncIterator]: () => iterator }
+  }
+
+  await pipelineAsync(Readable.from(chunks()), res)
+}
+
+/**
+ * The header line is sent along with the first row, so the rows are read before anything is sent
+ */
+async function* toCSVLines(
+  rows: AsyncIterable<any>,
+  columns?: string[]
+): AsyncIterableIterator<string> {
+  let header = columns
+  let hasHeader = false
+
+  for await (const row of rows) {
+    if (!header) header = Object.keys(row)
+    if (!hasHeader) {
+      yield toCSVLine(header)
+      hasHeader = true
+    }
+    yield toCSVLine(header.map(column => row[column]))
+  }
+
+  if (!hasHeader && header) {
+    yield toCSVLine(header)
+  }
+}
+
+function toCSVLine(values: any[]): string {
+  return values.map(toCSVValue).join(',') + '\r\n'
+}
+
+function toCSVValue(value: any): string {
+  if (value === null || value === undefined) return ''
+
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+      ? JSON.stringify(value)
+      : String(value)
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+async function* toAsyncIterable<V>(
+  source: AsyncIterable<V> | Iterable<V>
+): AsyncIterableIterator<V> {
+  yield* source
+}
@@ -86,6 +86,7 @@ export class SQLStatement {
 export interface SQLInterface {
   (queryParts: TemplateStringsArray | string[], ...args: any[]): SQLStatement
   raw(value: any): SQLStatement
+  join(statements: SQLStatement[], separator?: string): SQLStatement
 }
 
 export const SQL: SQLInterface = function(queryParts, ...args) {
@@ -96,4 +97,26 @@ export function raw(value: string | number): SQLStatement {
   return SQL([value.toString()])
 }
 
+/**
+ * Join a list of statements into a new one, keeping the placeholders in order
+ * @example
+ * join([SQL`a = ${1}`, SQL`b = ${2}`], ' AND ') => a = $1 AND b = $2
+ * @param statements
+ * @param [separator=', ']
+ */
+export function join(
+  statements: SQLStatement[],
+  separator: string = ', '
+): SQLStatement {
+  const result = SQL``
+
+  statements.forEach((statement, index) => {
+    if (index > 0) result.append(separator)
+    result.append(statement)
+  })
+
+  return result
+}
+
 SQL.raw = raw
+SQL.join = join
@@ -0,0 +1,22 @@
+import { BadRequestError } from '../errors'
+
+export interface FieldError {
+  field: string
+  rule: string
+  message: string
+}
+
+/**
+ * Thrown when a row doesn't pass its validations. It's a {@link BadRequestError} that lists each failing field on `data.errors`, so {@link server#handleRequest} can send it to the client
+ */
+export class ValidationError extends BadRequestError {
+  data: { errors: FieldError[] }
+
+  constructor(errors: FieldError[]) {
+    super(
+      `Validation failed: ${errors.map(error => error.message).join(', ')}`,
+      { errors }
+    )
+    this.name = 'ValidationError'
+  }
+}
@@ -0,0 +1,173 @@
+import { FieldError, ValidationError } from './ValidationError'
+
+export type ValueType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'date'
+  | 'array'
+  | 'object'
+
+export interface ValidationRule<U = any> {
+  required?: boolean
+  type?: ValueType
+  length?: { min?: number; max?: number }
+  min?: number
+  max?: number
+  pattern?: RegExp
+  enum?: any[]
+  /**
+   * Custom validation. Return (or resolve) an error message if the value is invalid
+   */
+  validate?: (
+    value: any,
+    row: Partial<U>
+  ) => string | undefined | void | Promise<string | undefined | void>
+}
+
+export type ValidationRules<U = any> = {
+  [K in keyof U]?: ValidationRule<U>
+}
+
+/**
+ * Check a row against a set of rules. Null and undefined values only fail the `required` rule
+ * @example
+ * await validate({ owner: '0x1' }, { owner: { required: true, pattern: /^0x[a-f0-9]{40}$/i } })
+ * @param row
+ * @param rules
+ * @param [partial=false] - Only check the fields present on the row, useful for updates
+ * @return Every error found, empty if the row is valid
+ */
+export async function validate<U = any>(
+  row: Partial<U>,
+  rules: ValidationRules<U>,
+  partial: boolean = false
+): Promise<FieldError[]> {
+  const errors: FieldError[] = []
+
+  for (const field of Object.keys(rules)) {
+    if (partial && !(field in row)) continue
+
+    const rule: ValidationRule<U> = rules[field]
+    const value = row[field]
+
+    if (value === undefined || value === null) {
+      if (rule.required) {
+        errors.push({
+          field,
+          rule: 'required',
+          message: `${field} is required`
+        })
+      }
+      continue
+    }
+
+    const error = await validateValue(field, value, rule, row)
+    if (error) {
+      errors.push(error)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Same as {@link validate} but it throws a {@link ValidationError} if any field is invalid
+ */
+export async function assertValid<U = any>(
+  row: Partial<U>,
+  rules: ValidationRules<U>,
+  partial: boolean = false
+): Promise<void> {
+  const errors = await validate(row, rules, partial)
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors)
+  }
+}
+
+async function validateValue<U>(
+  field: string,
+  value: any,
+  rule: ValidationRule<U>,
+  row: Partial<U>
+): Promise<FieldError | undefined> {
+  if (rule.type && !isType(value, rule.type)) {
+    return { field, rule: 'type', message: `${field} should be ${rule.type}` }
+  }
+
+  if (rule.length && (typeof value === 'string' || Array.isArray(value))) {
+    const { min, max } = rule.length
+
+    if (min !== undefined && value.length < min) {
+      return {
+        field,
+        rule: 'length',
+        message: `${field} should have at least ${min} characters`
+      }
+    }
+    if (max !== undefined && value.length > max) {
+      return {
+        field,
+        rule: 'length',
+        message: `${field} should have at most ${max} characters`
+      }
+    }
+  }
+
+  if (rule.min !== undefined && value < rule.min) {
+    return {
+      field,
+      rule: 'min',
+      message: `${field} should be at least ${rule.min}`
+    }
+  }
+  if (rule.max !== undefined && value > rule.max) {
+    return {
+      field,
+      rule: 'max',
+      message: `${field} should be at most ${rule.max}`
+    }
+  }
+
+  if (rule.pattern && !rule.pattern.test(String(value))) {
+    return {
+      field,
+      rule: 'pattern',
+      message: `${field} has an invalid format`
+    }
+  }
+
+  if (rule.enum && !rule.enum.includes(value)) {
+    return {
+      field,
+      rule: 'enum',
+      message: `${field} should be one of ${rule.enum.join(', ')}`
+    }
+  }
+
+  if (rule.validate) {
+    const message = await rule.validate(value, row)
+    if (message) {
+      return { field, rule: 'validate', message }
+    }
+  }
+}
+
+function isType(value: any, type: ValueType): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value)
+    case 'number':
+      return typeof value === 'number' && !isNaN(value)
+    case 'date':
+      return value instanceof Date && !isNaN(value.getTime())
+    case 'array':
+      return Array.isArray(value)
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value)
+    default:
+      return typeof value === type
+  }
+}